@@ -0,0 +1,505 @@
+#!/usr/bin/env node
+"use strict";
+
+/**
+ * Generate typescript client interfaces from a halcyon api. This starts at an entry point link,
+ * walks every rel and its .Docs link and writes typescript interfaces for the schemas and a
+ * TypedClientDef for each client type it finds, use them with TypedEndpointClient.
+ *
+ * Usage:
+ *   halcyon-codegen <entryUrl> [options]
+ *
+ * Options:
+ *   --out <file>           Write the output to file instead of stdout.
+ *   --name <name>          The type name to use for the entry point, defaults to EntryPoint.
+ *   --import <module>      The module to import the typed client from, defaults to htmlrapier.halcyon/src/TypedEndpointClient.
+ *   --header <name:value>  Add a header to every request, can be repeated.
+ *   --fixtures <file>      Load responses from a fixture file instead of the network.
+ *   --max-requests <n>     Stop walking the api after n requests, defaults to 500.
+ *
+ * A fixture file is a json file in the form { "responses": [ { "method", "href", "status", "contentType", "body" } ] }
+ * where body is the parsed json of the response. These can be recorded with the RecordingFetcher in src/HalFixtures.ts.
+ */
+
+const fs = require("fs");
+
+const halcyonJsonMimeType = "application/json+halcyon";
+const docsSuffix = ".Docs";
+
+function parseArgs(argv) {
+    const args = {
+        entry: undefined,
+        out: undefined,
+        name: "EntryPoint",
+        importFrom: "htmlrapier.halcyon/src/TypedEndpointClient",
+        headers: {},
+        fixtures: undefined,
+        maxRequests: 500
+    };
+    for (let i = 0; i < argv.length; ++i) {
+        const arg = argv[i];
+        const next = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error("Missing value for " + arg);
+            }
+            return argv[++i];
+        };
+        switch (arg) {
+            case "--out":
+                args.out = next();
+                break;
+            case "--name":
+                args.name = next();
+                break;
+            case "--import":
+                args.importFrom = next();
+                break;
+            case "--header":
+                const header = next();
+                const split = header.indexOf(":");
+                if (split === -1) {
+                    throw new Error("Headers must be in the form name:value, got " + header);
+                }
+                args.headers[header.substring(0, split).trim()] = header.substring(split + 1).trim();
+                break;
+            case "--fixtures":
+                args.fixtures = next();
+                break;
+            case "--max-requests":
+                args.maxRequests = parseInt(next(), 10);
+                break;
+            case "--help":
+            case "-h":
+                args.help = true;
+                break;
+            default:
+                if (arg.startsWith("--")) {
+                    throw new Error("Unknown option " + arg);
+                }
+                args.entry = arg;
+                break;
+        }
+    }
+    return args;
+}
+
+/**
+ * Build the function used to load a link, either from the network or from a fixture file.
+ * The fixtures can also be given as an already parsed fixture file.
+ */
+function createLoader(args) {
+    let requestCount = 0;
+    const countRequest = (href) => {
+        if (++requestCount > args.maxRequests) {
+            throw new Error("Exceeded the maximum of " + args.maxRequests + " requests loading " + href);
+        }
+    };
+
+    if (args.fixtures !== undefined) {
+        const fixtures = typeof args.fixtures === "string" ? JSON.parse(fs.readFileSync(args.fixtures, "utf8")) : args.fixtures;
+        const responses = {};
+        for (const response of fixtures.responses || []) {
+            responses[fixtureKey(response.method, response.href)] = response;
+        }
+        return async (method, href) => {
+            countRequest(href);
+            const response = responses[fixtureKey(method, href)];
+            if (response === undefined) {
+                throw new Error("No fixture found for " + method + " " + href);
+            }
+            if (response.status < 200 || response.status > 299) {
+                throw new Error("Fixture for " + method + " " + href + " has status " + response.status);
+            }
+            return response.body;
+        };
+    }
+
+    return async (method, href) => {
+        countRequest(href);
+        const response = await fetch(href, {
+            method: method,
+            headers: Object.assign({ "Accept": halcyonJsonMimeType }, args.headers)
+        });
+        if (!response.ok) {
+            throw new Error("Loading " + method + " " + href + " returned status " + response.status);
+        }
+        const text = await response.text();
+        return text === "" ? null : JSON.parse(text);
+    };
+}
+
+function fixtureKey(method, href) {
+    return (method || "GET").toUpperCase() + " " + href;
+}
+
+/**
+ * Get the href for a link with its default request data applied as the query. Relative hrefs are
+ * resolved against the href of the response the link came from.
+ */
+function getLinkHref(link, baseHref) {
+    const url = new URL(link.href, baseHref);
+    if (link.datamode === "query" && link.requestdata) {
+        for (const key in link.requestdata) {
+            const value = link.requestdata[key];
+            if (value === undefined || value === null) {
+                continue;
+            }
+            if (Array.isArray(value)) {
+                for (const item of value) {
+                    url.searchParams.append(key, item);
+                }
+            }
+            else {
+                url.searchParams.set(key, value);
+            }
+        }
+    }
+    return url.toString();
+}
+
+/**
+ * Walks the api and records the client types and schemas it finds.
+ */
+class ApiWalker {
+    constructor(load) {
+        this.load = load;
+        this.clients = new Map(); //Type name to client info
+        this.schemas = new Map(); //Type name to schema
+    }
+
+    async walk(entryHref, entryName) {
+        entryHref = new URL(entryHref).toString();
+        const entry = await this.load("GET", entryHref);
+        await this.visit(entry, entryName, entryHref);
+
+        //Results that were not followed still get a client type, the links on them are not known
+        for (const client of Array.from(this.clients.values())) {
+            for (const linkInfo of client.links) {
+                if (linkInfo.responseType !== undefined && !this.clients.has(linkInfo.responseType)) {
+                    this.clients.set(linkInfo.responseType, { name: linkInfo.responseType, links: [], embeds: [] });
+                }
+            }
+        }
+    }
+
+    async visit(halData, typeName, baseHref) {
+        if (this.clients.has(typeName)) {
+            return;
+        }
+
+        const client = {
+            name: typeName,
+            links: [],
+            embeds: []
+        };
+        this.clients.set(typeName, client);
+
+        const links = (halData && halData._links) || {};
+        for (const rel in links) {
+            if (rel.endsWith(docsSuffix)) {
+                continue;
+            }
+
+            const link = links[rel];
+            const linkInfo = {
+                rel: rel,
+                link: link,
+                hasDocs: links[rel + docsSuffix] !== undefined,
+                requestType: undefined,
+                responseType: undefined
+            };
+            client.links.push(linkInfo);
+
+            if (linkInfo.hasDocs) {
+                const docsLink = links[rel + docsSuffix];
+                const docs = await this.load(docsLink.method, getLinkHref(docsLink, baseHref));
+                if (docs) {
+                    linkInfo.requestType = this.addSchema(docs.requestSchema);
+                    linkInfo.responseType = this.addSchema(docs.responseSchema);
+                }
+            }
+
+            //Only follow links that are safe to load, anything else is only described by its docs
+            if (linkInfo.responseType !== undefined
+                && (link.method || "GET").toUpperCase() === "GET"
+                && (!link.datamode || link.datamode === "query")
+                && !this.clients.has(linkInfo.responseType)) {
+                const href = getLinkHref(link, baseHref);
+                const result = await this.load("GET", href);
+                await this.visit(result, linkInfo.responseType, href);
+            }
+        }
+
+        const embeds = (halData && halData._embedded) || {};
+        for (const embedName in embeds) {
+            const items = embeds[embedName];
+            const itemType = typeName + toPascalCase(embedName) + "Item";
+            client.embeds.push({ name: embedName, type: itemType });
+            //Use the first item to discover the links, if there are no items the type will be empty
+            await this.visit(Array.isArray(items) && items.length > 0 ? items[0] : undefined, itemType, baseHref);
+        }
+    }
+
+    /**
+     * Add a schema and any definitions it has, returns the type name for the schema or undefined if there is no schema.
+     */
+    addSchema(schema) {
+        if (!schema) {
+            return undefined;
+        }
+        const definitions = schema.definitions || {};
+        for (const name in definitions) {
+            const defName = toTypeName(name);
+            if (!this.schemas.has(defName)) {
+                this.schemas.set(defName, definitions[name]);
+            }
+        }
+        if (!schema.title) {
+            return undefined;
+        }
+        const typeName = toTypeName(schema.title);
+        if (!this.schemas.has(typeName)) {
+            this.schemas.set(typeName, schema);
+        }
+        return typeName;
+    }
+}
+
+function toPascalCase(name) {
+    const parts = String(name).split(/[^A-Za-z0-9]+/).filter(p => p.length > 0);
+    return parts.map(p => p.charAt(0).toUpperCase() + p.substring(1)).join("");
+}
+
+function toTypeName(name) {
+    let typeName = toPascalCase(name);
+    if (typeName === "" || /^[0-9]/.test(typeName)) {
+        typeName = "Type" + typeName;
+    }
+    return typeName;
+}
+
+function isIdentifier(name) {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+/**
+ * Convert a json schema to a typescript type expression.
+ */
+function schemaToType(schema, indent) {
+    if (!schema || schema === true) {
+        return "any";
+    }
+
+    if (schema.$ref) {
+        const refParts = schema.$ref.split("/");
+        return toTypeName(refParts[refParts.length - 1]);
+    }
+
+    if (schema.enum) {
+        return schema.enum.map(v => JSON.stringify(v)).join(" | ");
+    }
+
+    if (schema.oneOf || schema.anyOf) {
+        return (schema.oneOf || schema.anyOf).map(s => schemaToType(s, indent)).join(" | ");
+    }
+
+    if (schema.allOf) {
+        if (schema.allOf.length === 1) {
+            return schemaToType(schema.allOf[0], indent);
+        }
+        return schema.allOf.map(s => schemaToType(s, indent)).join(" & ");
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const tsTypes = types.map(type => {
+        switch (type) {
+            case "string":
+                return "string";
+            case "integer":
+            case "number":
+                return "number";
+            case "boolean":
+                return "boolean";
+            case "null":
+                return "null";
+            case "array":
+                const itemType = schemaToType(schema.items, indent);
+                return /^[A-Za-z0-9_$]+$/.test(itemType) ? itemType + "[]" : "(" + itemType + ")[]";
+            case "object":
+            case undefined:
+                if (schema.properties) {
+                    return objectToType(schema, indent);
+                }
+                if (schema.additionalProperties) {
+                    return "{ [key: string]: " + schemaToType(schema.additionalProperties, indent) + " }";
+                }
+                return "any";
+            default:
+                return "any";
+        }
+    });
+    return tsTypes.join(" | ");
+}
+
+function objectToType(schema, indent) {
+    const required = schema.required || [];
+    const inner = indent + "    ";
+    let result = "{\n";
+    for (const name in schema.properties) {
+        const property = schema.properties[name];
+        const optional = required.indexOf(name) === -1 ? "?" : "";
+        const propName = isIdentifier(name) ? name : JSON.stringify(name);
+        if (property && property.description) {
+            result += inner + "/** " + property.description.replace(/\*\//g, "*\\/") + " */\n";
+        }
+        result += inner + propName + optional + ": " + schemaToType(property, inner) + ";\n";
+    }
+    if (schema.additionalProperties && schema.additionalProperties !== true) {
+        result += inner + "[key: string]: " + schemaToType(schema.additionalProperties, inner) + ";\n";
+    }
+    result += indent + "}";
+    return result;
+}
+
+function writeSchema(name, schema) {
+    let result = "";
+    if (schema.description) {
+        result += "/**\n * " + schema.description.replace(/\*\//g, "*\\/") + "\n */\n";
+    }
+    const isObject = schema.properties !== undefined && !schema.oneOf && !schema.anyOf && !schema.allOf && !schema.enum;
+    if (isObject) {
+        result += "export interface " + name + " " + objectToType(schema, "") + "\n";
+    }
+    else {
+        result += "export type " + name + " = " + schemaToType(schema, "") + ";\n";
+    }
+    return result;
+}
+
+/**
+ * Get a name that is not in use yet by adding a number to the end of it.
+ */
+function getUniqueName(name, usedNames) {
+    let unique = name;
+    for (let i = 2; usedNames.has(unique); ++i) {
+        unique = name + i;
+    }
+    usedNames.add(unique);
+    return unique;
+}
+
+/**
+ * Get the type of the result for a link, this is the definition of the client it returns.
+ */
+function getResultType(linkInfo, client, clients) {
+    //Undocumented self links come back as the same type of client
+    const responseType = linkInfo.responseType === undefined && linkInfo.rel === "self" ? client.name : linkInfo.responseType;
+    if (responseType !== undefined) {
+        const responseClient = clients.get(responseType);
+        return responseClient !== undefined ? responseClient.defName : "TypedClientDef";
+    }
+    if (linkInfo.hasDocs) {
+        //Documented with no response, nothing useful comes back
+        return "TypedClientDef<void, {}>";
+    }
+    return "TypedClientDef";
+}
+
+/**
+ * Write a type literal with a property for each of the entries, the values are already type expressions.
+ */
+function writeMembers(entries, indent) {
+    if (entries.length === 0) {
+        return "{}";
+    }
+    let result = "{\n";
+    for (const [name, type] of entries) {
+        result += indent + "    " + (isIdentifier(name) ? name : JSON.stringify(name)) + ": " + type + ";\n";
+    }
+    return result + indent + "}";
+}
+
+function writeClient(client, clients) {
+    const links = client.links.map(linkInfo => {
+        //Links without a datamode do not take any data
+        const requestType = linkInfo.link.datamode ? linkInfo.requestType || "any" : "void";
+        return [linkInfo.rel, "TypedLinkDef<" + requestType + ", " + getResultType(linkInfo, client, clients) + ">"];
+    });
+
+    let result = "export interface " + client.defName + " {\n";
+    result += "    data: " + clientDataType(client) + ";\n";
+    result += "    links: " + writeMembers(links, "    ") + ";\n";
+    if (client.embeds.length > 0) {
+        //Not used by TypedEndpointClient, this lists the item types for the embeds
+        result += "    embeds: " + writeMembers(client.embeds.map(e => [e.name, clients.get(e.type).defName]), "    ") + ";\n";
+    }
+    result += "}\n\n";
+    result += "export type " + client.clientName + " = TypedEndpointClient<" + client.defName + ">;\n";
+    return result;
+}
+
+function clientDataType(client) {
+    return client.schemaName !== undefined ? client.schemaName : "any";
+}
+
+function generate(walker, importFrom) {
+    let result = "//This file was generated by halcyon-codegen, changes will be lost if it is regenerated.\n\n";
+    result += "import { TypedClientDef, TypedEndpointClient, TypedLinkDef } from " + JSON.stringify(importFrom) + ";\n\n";
+
+    //The schemas keep their names, the client types are named after them and renamed if they collide
+    const usedNames = new Set(walker.schemas.keys());
+    for (const client of walker.clients.values()) {
+        if (walker.schemas.has(client.name)) {
+            client.schemaName = client.name;
+        }
+        client.defName = getUniqueName(client.name + "Def", usedNames);
+        client.clientName = getUniqueName(client.name + "Client", usedNames);
+    }
+
+    for (const client of walker.clients.values()) {
+        result += writeClient(client, walker.clients) + "\n";
+    }
+
+    for (const [name, schema] of walker.schemas) {
+        result += writeSchema(name, schema) + "\n";
+    }
+
+    return result;
+}
+
+function printUsage() {
+    process.stdout.write("Usage: halcyon-codegen <entryUrl> [--out <file>] [--name <name>] [--import <module>] [--header <name:value>] [--fixtures <file>] [--max-requests <n>]\n");
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    if (args.help) {
+        printUsage();
+        return;
+    }
+    if (args.entry === undefined) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+    }
+
+    const walker = new ApiWalker(createLoader(args));
+    await walker.walk(args.entry, toTypeName(args.name));
+    const output = generate(walker, args.importFrom);
+
+    if (args.out !== undefined) {
+        fs.writeFileSync(args.out, output);
+    }
+    else {
+        process.stdout.write(output);
+    }
+}
+
+if (require.main === module) {
+    main().catch(err => {
+        process.stderr.write((err && err.message ? err.message : String(err)) + "\n");
+        process.exitCode = 1;
+    });
+}
+
+module.exports = { ApiWalker, createLoader, generate, schemaToType };
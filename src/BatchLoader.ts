@@ -0,0 +1,165 @@
+﻿import { HalClientError, HalEndpointClient, HalError, RequestOptions } from './EndpointClient';
+
+/**
+ * A single link to load as part of a batch.
+ */
+export interface BatchRequest {
+    /**
+     * The client with the link.
+     */
+    client: HalEndpointClient;
+
+    /**
+     * The rel of the link to load.
+     */
+    rel: string;
+
+    /**
+     * The data to send to the link, if this is undefined the link's default request data is used.
+     */
+    data?: any;
+
+    /**
+     * The options for the request.
+     */
+    options?: RequestOptions;
+}
+
+/**
+ * The result of a request that loaded.
+ */
+export interface BatchSuccess {
+    status: "fulfilled";
+    request: BatchRequest;
+    client: HalEndpointClient;
+}
+
+/**
+ * The result of a request that failed.
+ */
+export interface BatchFailure {
+    status: "rejected";
+    request: BatchRequest;
+    error: HalError | HalClientError | Error;
+}
+
+export type BatchResult = BatchSuccess | BatchFailure;
+
+/**
+ * Options for a BatchLoader.
+ */
+export interface BatchLoaderOptions {
+    /**
+     * The number of requests that can run at the same time. Defaults to 6.
+     */
+    concurrency?: number;
+
+    /**
+     * True to share the results of GET requests for the same href that are running at the
+     * same time. Requests with a signal or timeout are never shared, since cancelling one
+     * would cancel the others. Defaults to true.
+     */
+    dedupe?: boolean;
+}
+
+/**
+ * Load many links while limiting how many requests run at once. The limit is shared by
+ * everything loaded through the same BatchLoader. When dedupe is on, GET requests for the same
+ * href share a single request, so the callers will get the same client instance.
+ */
+export class BatchLoader {
+    private concurrency: number;
+    private dedupe: boolean;
+    private active: number = 0;
+    private waiting: (() => void)[] = [];
+    private inFlight: { [key: string]: Promise<HalEndpointClient> } = {};
+
+    constructor(options?: BatchLoaderOptions) {
+        options = options || {};
+        this.concurrency = options.concurrency !== undefined ? Math.max(1, options.concurrency) : 6;
+        this.dedupe = options.dedupe !== undefined ? options.dedupe : true;
+    }
+
+    /**
+     * Load a single link, waiting for a free slot if the limit has been reached.
+     * @param client - The client with the link.
+     * @param rel - The rel of the link.
+     * @param data - The data to send to the link.
+     * @param options - The options for the request.
+     */
+    public Load(client: HalEndpointClient, rel: string, data?: any, options?: RequestOptions): Promise<HalEndpointClient> {
+        var key: string | undefined;
+        try {
+            key = this.dedupe ? BatchLoader.GetDedupeKey(client, rel, data, options) : undefined;
+        }
+        catch (err) {
+            return Promise.reject(err); //The data could not be turned into a key, such as data with a cycle
+        }
+        if (key !== undefined && this.inFlight[key] !== undefined) {
+            return this.inFlight[key];
+        }
+
+        var result = this.Acquire()
+            .then(() => data !== undefined
+                ? client.LoadLinkWithData(rel, data, options)
+                : client.LoadLink(rel, options))
+            .finally(() => {
+                this.Release();
+                if (key !== undefined && this.inFlight[key] === result) {
+                    delete this.inFlight[key];
+                }
+            });
+
+        if (key !== undefined) {
+            this.inFlight[key] = result;
+        }
+        return result;
+    }
+
+    /**
+     * Load all the requests. This never rejects, each request gets a result that
+     * says if it loaded or failed, in the same order as the requests.
+     * @param requests - The requests to load.
+     */
+    public LoadAll(requests: BatchRequest[]): Promise<BatchResult[]> {
+        return Promise.all(requests.map(request =>
+            this.Load(request.client, request.rel, request.data, request.options)
+                .then((client): BatchResult => ({ status: "fulfilled", request: request, client: client }),
+                      (error): BatchResult => ({ status: "rejected", request: request, error: error }))));
+    }
+
+    private Acquire(): Promise<void> {
+        if (this.active < this.concurrency) {
+            ++this.active;
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    private Release(): void {
+        var next = this.waiting.shift();
+        if (next !== undefined) {
+            next(); //Hand the slot to the next request, active stays the same
+        }
+        else {
+            --this.active;
+        }
+    }
+
+    /**
+     * Get the key to dedupe a request with, undefined if the request should not be deduped.
+     */
+    private static GetDedupeKey(client: HalEndpointClient, rel: string, data: any, options: RequestOptions | undefined): string | undefined {
+        if (options !== undefined && (options.signal !== undefined || options.timeout !== undefined)) {
+            return undefined;
+        }
+        var link = client.GetLink(rel);
+        if (link === undefined || (link.method && link.method.toUpperCase() !== "GET")) {
+            return undefined;
+        }
+        if (data === undefined) {
+            data = link.requestdata;
+        }
+        return link.href + (data !== undefined ? " " + JSON.stringify(data) : "");
+    }
+}
@@ -0,0 +1,133 @@
+﻿import { createContentDisposition, FileInfo, HalEndpointClient, UploadOptions } from './EndpointClient';
+
+/**
+ * Options for a ChunkedUpload.
+ */
+export interface ChunkedUploadOptions {
+    /**
+     * The size of each chunk in bytes. Defaults to 5 MiB.
+     */
+    chunkSize?: number;
+
+    /**
+     * The number of bytes the server already has. Use this to resume an upload that was
+     * started before the page was reloaded.
+     */
+    offset?: number;
+}
+
+const DefaultChunkSize = 5 * 1024 * 1024;
+
+/**
+ * Upload a large file to a link declared by the server, one chunk at a time. Each chunk is sent
+ * to the link as the request body with a Content-Range header saying where it goes in the file.
+ * If a chunk fails, call Upload again to resume from the last chunk the server accepted.
+ *
+ * The result of each chunk can include the upload link again, such as with an href for an upload
+ * session, and the rest of the chunks will be sent to that link. The result of the last chunk is
+ * the result of the upload.
+ */
+export class ChunkedUpload {
+    private blob: Blob;
+    private fileName: string | undefined;
+    private chunkSize: number;
+    private offset: number;
+    private result: HalEndpointClient | undefined = undefined;
+    private running: Promise<HalEndpointClient> | undefined = undefined;
+
+    /**
+     * Constructor.
+     * @param client - The client with the upload link.
+     * @param rel - The rel of the upload link.
+     * @param file - The file to upload. The file name of a FileInfo is sent in a Content-Disposition header.
+     * @param options - The options for the upload.
+     */
+    constructor(private client: HalEndpointClient, private rel: string, file: Blob | FileInfo, options?: ChunkedUploadOptions) {
+        options = options || {};
+        if (file instanceof Blob) {
+            this.blob = file;
+        }
+        else {
+            this.blob = file.data;
+            this.fileName = file.fileName;
+        }
+        this.chunkSize = options.chunkSize !== undefined ? Math.max(1, options.chunkSize) : DefaultChunkSize;
+        this.offset = options.offset !== undefined ? Math.min(Math.max(0, options.offset), this.blob.size) : 0;
+    }
+
+    /**
+     * The number of bytes the server has accepted. Save this to resume the upload later.
+     */
+    public get Offset(): number {
+        return this.offset;
+    }
+
+    /**
+     * The size of the file in bytes.
+     */
+    public get Total(): number {
+        return this.blob.size;
+    }
+
+    /**
+     * True if every chunk has been uploaded.
+     */
+    public get IsComplete(): boolean {
+        return this.result !== undefined;
+    }
+
+    /**
+     * Upload the chunks that have not been sent yet. Calling this while an upload is running
+     * returns the same promise. The progress reported to onProgress covers the whole file and
+     * the signal and timeout apply to each chunk. Chunks are never stored by the offline setting,
+     * if there is no connection call Upload again when it returns.
+     * @param options - The options for the chunk requests.
+     * @returns The client for the result of the last chunk.
+     */
+    public Upload(options?: UploadOptions): Promise<HalEndpointClient> {
+        if (this.result !== undefined) {
+            return Promise.resolve(this.result);
+        }
+        if (this.running === undefined) {
+            this.running = this.SendChunks(options || {})
+                .finally(() => this.running = undefined);
+        }
+        return this.running;
+    }
+
+    private SendChunks(options: UploadOptions): Promise<HalEndpointClient> {
+        var total = this.blob.size;
+        var start = this.offset;
+        var end = Math.min(start + this.chunkSize, total);
+        var headers: { [key: string]: string } = {
+            ...options.headers,
+            //An empty file is sent as a single empty chunk
+            "Content-Range": total > 0 ? "bytes " + start + "-" + (end - 1) + "/" + total : "bytes */0"
+        };
+        if (this.fileName !== undefined) {
+            headers["Content-Disposition"] = createContentDisposition(this.fileName);
+        }
+
+        return this.client.UploadLinkWithBlob(this.rel, this.blob.slice(start, end, this.blob.type), {
+            ...options,
+            headers: headers,
+            offline: false, //A queued chunk would be sent without this upload knowing, call Upload again to resume instead
+            onProgress: progress => {
+                if (options.onProgress !== undefined) {
+                    options.onProgress({ loaded: start + progress.loaded, total: total });
+                }
+            }
+        })
+            .then(client => {
+                this.offset = end;
+                if (end >= total) {
+                    this.result = client;
+                    return client;
+                }
+                if (client.HasLink(this.rel)) {
+                    this.client = client;
+                }
+                return this.SendChunks(options);
+            });
+    }
+}
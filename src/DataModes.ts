@@ -0,0 +1,326 @@
+﻿import { Uri } from 'htmlrapier/src/uri';
+import { DataModeHandler, DataModeRequest, HalEndpointClientSettings, HalLink, InvalidJsonPatchError } from './EndpointClient';
+import { createValueReplacer, JsonReplacer, stringifyJson } from './JsonSerializer';
+
+//Data Modes
+export const MODE_NoData = null;
+export const MODE_Query = "query";
+export const MODE_Body = "body";
+export const MODE_Form = "form";
+export const MODE_Template = "template";
+export const MODE_MergePatch = "mergepatch";
+export const MODE_JsonPatch = "jsonpatch";
+export const MODE_UrlEncoded = "urlencoded";
+
+const jsonMimeType = "application/json";
+const mergePatchMimeType = "application/merge-patch+json";
+const jsonPatchMimeType = "application/json-patch+json";
+const urlEncodedMimeType = "application/x-www-form-urlencoded";
+
+/**
+ * Helper function to get the expanded version of a query link.
+ * @param {type} link
+ * @param {type} query
+ * @returns
+ */
+export function getQueryLink(link: HalLink, query: any): HalLink {
+    if (query !== undefined && query !== null) {
+        var uri = new Uri(link.href);
+        uri.setQueryFromObject(query);
+        return {
+            href: uri.build(),
+            method: link.method
+        };
+    }
+    else {
+        return link; //No query, just return original link.
+    }
+}
+
+//Thanks Raj Pawan Gumdal at
+//https://stackoverflow.com/questions/22783108/convert-js-object-to-form-data
+//Removed the test json bit
+//Values are converted with toJSON and the replacer the same way as JSON.stringify, so Dates are sent as ISO-8601 strings
+export function jsonToFormData<T>(inJSON: T, inFormData?: FormData, parentKey?: string, replacer?: JsonReplacer) {
+    // http://stackoverflow.com/a/22783314/260665
+    // Raj: Converts any nested JSON to formData.
+    var form_data: FormData = inFormData || new FormData();
+    for (var key in inJSON) {
+        // 1. If it is a recursion, then key has to be constructed like "parent.child" where parent JSON contains a child JSON
+        // 2. Perform append data only if the value for key is not a JSON, recurse otherwise!
+        var constructedKey: string = key;
+        if (parentKey) {
+            constructedKey = parentKey + "." + key;
+        }
+
+        var value = serializeValue(inJSON, key, inJSON[key], replacer);
+        if (value && value.constructor === {}.constructor) {
+            // This is a JSON, we now need to recurse!
+            jsonToFormData(value, form_data, constructedKey, replacer);
+        }
+        else if (value && value.constructor === Blob && (<any>value).fileName) {
+            //With ie you have to use blobs for files, this allows us to detect that a fileName property was added to a blob and makes us use that as the third argument to append
+            form_data.append(constructedKey, <any>value, (<any>value).fileName);
+        }
+        else if (Array.isArray(value)) {
+            for (var i = 0; i < value.length; ++i) {
+                jsonToFormData(value[i], form_data, constructedKey + '[' + i + ']', replacer);
+            }
+        }
+        else {
+            form_data.append(constructedKey, <any>value);
+        }
+    }
+    return form_data;
+}
+
+function serializeValue(holder: any, key: string, value: any, replacer: JsonReplacer | undefined): any {
+    if (value !== null && value !== undefined && typeof value.toJSON === "function") {
+        value = value.toJSON(key);
+    }
+    if (replacer !== undefined) {
+        value = replacer.call(holder, key, value);
+    }
+    return value;
+}
+
+/**
+ * Convert an object to url encoded form data. Nested objects and arrays are named the same way as jsonToFormData.
+ */
+export function jsonToUrlEncoded<T>(inJSON: T, inParams?: URLSearchParams, parentKey?: string, replacer?: JsonReplacer): URLSearchParams {
+    var params = inParams || new URLSearchParams();
+    for (var key in inJSON) {
+        var constructedKey: string = parentKey ? parentKey + "." + key : key;
+        var value: any = serializeValue(inJSON, key, inJSON[key], replacer);
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (Array.isArray(value)) {
+            for (var i = 0; i < value.length; ++i) {
+                var item = serializeValue(value, String(i), value[i], replacer);
+                if (item !== null && typeof item === "object") {
+                    jsonToUrlEncoded(item, params, constructedKey + '[' + i + ']', replacer);
+                }
+                else {
+                    params.append(constructedKey + '[' + i + ']', String(item));
+                }
+            }
+        }
+        else if (typeof value === "object") {
+            jsonToUrlEncoded(value, params, constructedKey, replacer);
+        }
+        else {
+            params.append(constructedKey, String(value));
+        }
+    }
+    return params;
+}
+
+/**
+ * Expand a RFC 6570 uri template. This supports all of the level 4 operators and modifiers.
+ * @param template - The template to expand.
+ * @param data - The values for the variables.
+ * @returns The expanded uri.
+ */
+export function expandUriTemplate(template: string, data: any): string {
+    data = data || {};
+    return template.replace(/\{([^{}]+)\}/g, (match: string, expression: string) => {
+        var operator = "";
+        if ("+#./;?&".indexOf(expression.charAt(0)) !== -1) {
+            operator = expression.charAt(0);
+            expression = expression.substring(1);
+        }
+
+        var first = operator === "" || operator === "+" ? "" : operator === "#" ? "#" : operator === "?" ? "?" : operator === "&" ? "&" : operator;
+        var separator = operator === "" || operator === "+" || operator === "#" ? "," : operator === "?" || operator === "&" ? "&" : operator;
+        var named = operator === ";" || operator === "?" || operator === "&";
+        var ifEmpty = operator === "?" || operator === "&" ? "=" : "";
+        var allowReserved = operator === "+" || operator === "#";
+
+        var parts: string[] = [];
+        var variables = expression.split(",");
+        for (var i = 0; i < variables.length; ++i) {
+            var spec = /^([^:*]+)(?::(\d+)|(\*))?$/.exec(variables[i]);
+            if (spec === null) {
+                continue;
+            }
+            var name = spec[1];
+            var prefix = spec[2] !== undefined ? parseInt(spec[2], 10) : undefined;
+            var explode = spec[3] === "*";
+            var value = data[name];
+            if (value === undefined || value === null) {
+                continue;
+            }
+
+            var encode = (v: any) => encodeTemplateValue(String(v instanceof Date ? v.toISOString() : v), allowReserved);
+
+            if (Array.isArray(value) || typeof value === "object" && !(value instanceof Date)) {
+                var pairs: [string, any][] = Array.isArray(value)
+                    ? value.map((v): [string, any] => [name, v])
+                    : Object.keys(value).filter(k => value[k] !== undefined && value[k] !== null).map((k): [string, any] => [k, value[k]]);
+                if (pairs.length === 0) {
+                    continue;
+                }
+                if (explode) {
+                    parts.push(pairs.map(p => {
+                        if (named || !Array.isArray(value)) {
+                            return encode(p[0]) + (p[1] === "" ? ifEmpty : "=" + encode(p[1]));
+                        }
+                        return encode(p[1]);
+                    }).join(separator));
+                }
+                else {
+                    var joined = Array.isArray(value)
+                        ? pairs.map(p => encode(p[1])).join(",")
+                        : pairs.map(p => encode(p[0]) + "," + encode(p[1])).join(",");
+                    parts.push(named ? name + "=" + joined : joined);
+                }
+            }
+            else {
+                var str = String(value instanceof Date ? value.toISOString() : value);
+                if (prefix !== undefined) {
+                    str = str.substring(0, prefix);
+                }
+                var encoded = encodeTemplateValue(str, allowReserved);
+                if (named) {
+                    parts.push(name + (str === "" ? ifEmpty : "=" + encoded));
+                }
+                else {
+                    parts.push(encoded);
+                }
+            }
+        }
+
+        if (parts.length === 0) {
+            return "";
+        }
+        return first + parts.join(separator);
+    });
+}
+
+function encodeTemplateValue(value: string, allowReserved: boolean): string {
+    if (allowReserved) {
+        //Keep reserved characters and existing percent encodings
+        return value.replace(/%(?![0-9A-Fa-f]{2})|[^A-Za-z0-9\-._~:\/?#\[\]@!$&'()*+,;=%]/g, c => encodeURIComponent(c));
+    }
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+/**
+ * Sends the data as the query string of the link.
+ */
+export class QueryDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return { link: getQueryLink(link, data) };
+    }
+}
+
+/**
+ * Sends the data as a json body.
+ */
+export class BodyDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return {
+            link: link,
+            body: stringifyJson(data, settings.json),
+            contentType: jsonMimeType
+        };
+    }
+}
+
+/**
+ * Sends the data as multipart form data, use this to upload files.
+ */
+export class FormDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return {
+            link: link,
+            body: jsonToFormData(data, undefined, undefined, createValueReplacer(settings.json))
+        };
+    }
+}
+
+/**
+ * Expands the link's href as a RFC 6570 uri template using the data.
+ */
+export class TemplateDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return {
+            link: {
+                href: expandUriTemplate(link.href, data),
+                method: link.method
+            }
+        };
+    }
+}
+
+/**
+ * Sends the data as a json merge patch (RFC 7396) body.
+ */
+export class MergePatchDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return {
+            link: link,
+            body: stringifyJson(data, settings.json),
+            contentType: mergePatchMimeType
+        };
+    }
+}
+
+/**
+ * Sends the data as a json patch (RFC 6902) body, the data must be an array of patch operations.
+ */
+export class JsonPatchDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        if (!Array.isArray(data)) {
+            throw new InvalidJsonPatchError({ href: link.href });
+        }
+        return {
+            link: link,
+            body: stringifyJson(data, settings.json),
+            contentType: jsonPatchMimeType
+        };
+    }
+}
+
+/**
+ * Sends the data as an url encoded form body.
+ */
+export class UrlEncodedDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest {
+        return {
+            link: link,
+            body: jsonToUrlEncoded(data, undefined, undefined, createValueReplacer(settings.json)).toString(),
+            contentType: urlEncodedMimeType
+        };
+    }
+}
+
+var dataModes: { [mode: string]: DataModeHandler } = {};
+dataModes[MODE_Query] = new QueryDataMode();
+dataModes[MODE_Body] = new BodyDataMode();
+dataModes[MODE_Form] = new FormDataMode();
+dataModes[MODE_Template] = new TemplateDataMode();
+dataModes[MODE_MergePatch] = new MergePatchDataMode();
+dataModes[MODE_JsonPatch] = new JsonPatchDataMode();
+dataModes[MODE_UrlEncoded] = new UrlEncodedDataMode();
+
+/**
+ * Register a handler for a data mode for all clients. This will replace any existing handler
+ * for the mode, including the built in ones. To only change the handler for some clients use
+ * the dataModes setting instead.
+ * @param mode - The data mode, this is matched against the datamode of the links.
+ * @param handler - The handler.
+ */
+export function registerDataMode(mode: string, handler: DataModeHandler): void {
+    dataModes[mode] = handler;
+}
+
+/**
+ * Get the registered handler for a data mode.
+ * @param mode - The data mode.
+ * @returns The handler or undefined if there is none.
+ */
+export function getDataMode(mode: string): DataModeHandler | undefined {
+    return Object.prototype.hasOwnProperty.call(dataModes, mode) ? dataModes[mode] : undefined;
+}
@@ -1,18 +1,14 @@
 ﻿import { Fetcher } from 'htmlrapier/src/fetcher';
 import { FormErrors } from 'htmlrapier/src/error';
-import { Uri } from 'htmlrapier/src/uri';
-
-//Data Modes
-const MODE_NoData = null;
-const MODE_Query = "query";
-const MODE_Body = "body";
-const MODE_Form = "form";
+import { getDataMode, MODE_Body, MODE_Form, MODE_Query, MODE_Template } from './DataModes';
+import { createJsonReviver, parseJson, toJsonValue } from './JsonSerializer';
+import { getMediaType, getMediaTypeParser, isAcceptedMediaType, MEDIA_Halcyon } from './MediaTypes';
 
 /**
  * This interface strongly types the hal endpoint data.
  * @param {any} links
  */
-interface HalData {
+export interface HalData {
     _links: any;
     _embedded: any;
 }
@@ -38,6 +34,26 @@ export interface HalLinkInfo {
     rel: string;
 }
 
+/**
+ * A full description of a hal link, use this to build ui for the links a server sends.
+ */
+export interface HalLinkDescription extends HalLinkInfo {
+    /**
+     * The datamode of the link, this is undefined if the link does not take data.
+     */
+    datamode?: string;
+
+    /**
+     * The data the link sends by default, if there is any.
+     */
+    requestdata?: any;
+
+    /**
+     * True if the link has documentation that can be loaded with GetLinkDoc.
+     */
+    hasDocs: boolean;
+}
+
 /**
  * Documentation object for a hal link. Can be reused for any documentation lookup.
  */
@@ -61,15 +77,81 @@ export interface FileInfo {
     data: Blob;
 }
 
-export class Embed {
+/**
+ * The items embedded in a client under a single name. Clients for the items are only created
+ * when they are asked for and are reused after that. If all the items are the same type specify
+ * T to type their data.
+ */
+export class Embed<T = any> {
     private name: string;
     private embeds: HalData[];
     private fetcher: Fetcher;
+    private settings: HalEndpointClientSettings;
+    private clients: HalEndpointClient[] = [];
 
-    constructor(name: string, embeds: HalData[], fetcher: Fetcher) {
+    constructor(name: string, embeds: HalData[], fetcher: Fetcher, settings?: HalEndpointClientSettings) {
         this.name = name;
-        this.embeds = embeds;
+        this.embeds = embeds || [];
         this.fetcher = fetcher;
+        this.settings = settings;
+    }
+
+    /**
+     * The name of the embed.
+     */
+    public get Name(): string {
+        return this.name;
+    }
+
+    /**
+     * The number of items in the embed.
+     */
+    public get Count(): number {
+        return this.embeds.length;
+    }
+
+    /**
+     * Get the client for a single item.
+     * @param index - The index of the item.
+     * @returns The client or undefined if the index is out of range.
+     */
+    public GetClient(index: number): HalEndpointClient | undefined {
+        if (index < 0 || index >= this.embeds.length) {
+            return undefined;
+        }
+        var client = this.clients[index];
+        if (client === undefined) {
+            //The client removes the hal properties from its data, so give it a copy
+            client = new HalEndpointClient({ ...this.embeds[index] }, this.fetcher, this.settings);
+            this.clients[index] = client;
+        }
+        return client;
+    }
+
+    /**
+     * Get the data for a single item without creating a client for it.
+     * @param index - The index of the item.
+     * @returns The data with the hal properties removed or undefined if the index is out of range.
+     */
+    public GetData<TData = T>(index: number): TData | undefined {
+        if (index < 0 || index >= this.embeds.length) {
+            return undefined;
+        }
+        var data: any = { ...this.embeds[index] };
+        delete data._links;
+        delete data._embedded;
+        return <TData>data;
+    }
+
+    /**
+     * Get the data for all the items without creating clients for them.
+     */
+    public GetAllData<TData = T>(): TData[] {
+        var data: TData[] = [];
+        for (var i = 0; i < this.embeds.length; ++i) {
+            data.push(this.GetData<TData>(i));
+        }
+        return data;
     }
 
     public GetAllClients(): HalEndpointClient[] {
@@ -77,11 +159,19 @@ export class Embed {
         var embeddedClients: HalEndpointClient[] = [];
 
         for (let i = 0; i < this.embeds.length; ++i) {
-            var embed = new HalEndpointClient(this.embeds[i], this.fetcher);
-            embeddedClients.push(embed);
+            embeddedClients.push(this.GetClient(i));
         }
         return embeddedClients;
     }
+
+    /**
+     * Iterate the clients for the items, the clients are created as the iteration reaches them.
+     */
+    public *[Symbol.iterator](): Iterator<HalEndpointClient> {
+        for (let i = 0; i < this.embeds.length; ++i) {
+            yield this.GetClient(i);
+        }
+    }
 }
 
 interface ServerError {
@@ -89,16 +179,118 @@ interface ServerError {
     message: string;
 }
 
+/**
+ * An error body in the RFC 7807 problem details format. The errors are the validation errors
+ * in the format asp.net core uses, where each error can be a single message or an array of messages.
+ */
+export interface ProblemDetails {
+    type?: string;
+    title?: string;
+    status?: number;
+    detail?: string;
+    instance?: string;
+    errors?: { [key: string]: string | string[] };
+}
+
+/**
+ * Determine if an error body is a problem details object instead of a halcyon server error.
+ * @param errorData - The error body.
+ * @returns True if the body is problem details.
+ */
+export function isProblemDetails(errorData: any): errorData is ProblemDetails {
+    return errorData !== null && typeof errorData === "object"
+        && errorData.message === undefined
+        && (errorData.title !== undefined || errorData.detail !== undefined || errorData.type !== undefined);
+}
+
+/**
+ * Get the file name from a Content-Disposition header. The encoded filename* is used if it is present.
+ * @param contentDisposition - The header value.
+ * @returns The file name or undefined if there isn't one.
+ */
+export function getContentDispositionFileName(contentDisposition: string | null): string | undefined {
+    if (!contentDisposition) {
+        return undefined;
+    }
+    var encoded = /filename\*\s*=\s*([^';]*)'[^']*'([^;]*)/i.exec(contentDisposition);
+    if (encoded !== null) {
+        try {
+            return decodeURIComponent(encoded[2].trim());
+        }
+        catch (err) {
+            //Bad encoding, try the plain file name instead
+        }
+    }
+    var quoted = /filename\s*=\s*"((?:[^"\\]|\\.)*)"/i.exec(contentDisposition);
+    if (quoted !== null) {
+        return quoted[1].replace(/\\(.)/g, "$1");
+    }
+    var plain = /filename\s*=\s*([^;]+)/i.exec(contentDisposition);
+    if (plain !== null) {
+        return plain[1].trim();
+    }
+    return undefined;
+}
+
+/**
+ * Create a Content-Disposition header value for an attachment. Header values can only be ascii, so names
+ * with other characters are sent in filename* with an ascii version in filename for older servers.
+ * @param fileName - The file name.
+ * @returns The header value.
+ */
+export function createContentDisposition(fileName: string): string {
+    var quote = (name: string) => '"' + name.replace(/["\\]/g, "\\$&") + '"';
+    if (/^[\x20-\x7e]*$/.test(fileName)) {
+        return "attachment; filename=" + quote(fileName);
+    }
+    var fallback = fileName.replace(/[^\x20-\x7e]/g, "_");
+    //encodeURIComponent leaves some characters that are not allowed in filename*
+    var encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => "%" + c.charCodeAt(0).toString(16).toUpperCase());
+    return "attachment; filename=" + quote(fallback) + "; filename*=UTF-8''" + encoded;
+}
+
 export class HalError implements FormErrors {
     private errorData: ServerError;
     private statusCode: number;
+    private problem: ProblemDetails | undefined;
     public name;
     public message;
 
-    constructor(errorData: ServerError, statusCode: number) {
-        this.errorData = errorData;
+    constructor(errorData: ServerError | ProblemDetails, statusCode: number) {
+        if (isProblemDetails(errorData)) {
+            this.problem = errorData;
+            errorData = HalError.FromProblemDetails(errorData);
+        }
+        this.errorData = <ServerError>errorData;
         this.statusCode = statusCode;
-        this.message = errorData.message;
+        this.message = this.errorData.message;
+    }
+
+    /**
+     * Convert problem details to the server error format. The detail is used as the message if
+     * there is one, otherwise the title. Validation errors with multiple messages are joined.
+     */
+    private static FromProblemDetails(problem: ProblemDetails): ServerError {
+        var errors: any = undefined;
+        if (problem.errors !== undefined && problem.errors !== null) {
+            errors = {};
+            for (var key in problem.errors) {
+                var error = problem.errors[key];
+                errors[key] = Array.isArray(error) ? error.join(" ") : error;
+            }
+        }
+        return {
+            message: problem.detail !== undefined ? problem.detail : problem.title,
+            errors: errors
+        };
+    }
+
+    /**
+     * Get the problem details the server sent.
+     * @returns The problem details or undefined if the server sent a halcyon error.
+     */
+    getProblemDetails(): ProblemDetails | undefined {
+        return this.problem;
     }
 
     /**
@@ -143,9 +335,1374 @@ export class HalError implements FormErrors {
     }
 }
 
-export interface LoadOptions {
-    reqBody?: any;
-    contentType?: string;
+/**
+ * Info about the request that caused a HalClientError.
+ */
+export interface HalClientErrorInfo {
+    /**
+     * The status code of the response, undefined if there was no response.
+     */
+    status?: number;
+
+    /**
+     * The href of the request.
+     */
+    href?: string;
+
+    /**
+     * The rel of the link that was loaded, undefined if the link was not loaded from a client.
+     */
+    rel?: string;
+
+    /**
+     * The text of the response, undefined if there was no response or it was not read.
+     */
+    responseText?: string;
+}
+
+/**
+ * The base class for errors from the client that are not errors returned by a halcyon server,
+ * those are reported as HalError.
+ */
+export class HalClientError extends Error {
+    public readonly status?: number;
+    public readonly href?: string;
+    public readonly rel?: string;
+    public readonly responseText?: string;
+
+    constructor(message: string, info?: HalClientErrorInfo) {
+        super(message);
+        this.name = "HalClientError";
+        info = info || {};
+        this.status = info.status;
+        this.href = info.href;
+        this.rel = info.rel;
+        this.responseText = info.responseText;
+    }
+}
+
+/**
+ * This error is thrown when the fetcher fails to get a response, usually because the network is down.
+ */
+export class NetworkError extends HalClientError {
+    /**
+     * The error thrown by the fetcher.
+     */
+    public readonly cause: any;
+
+    constructor(cause: any, info: HalClientErrorInfo) {
+        super("Could not load " + info.href + ". " + (cause && cause.message ? cause.message : String(cause)), info);
+        this.name = "NetworkError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * This error is thrown when the server returns a content type that the client cannot read.
+ */
+export class UnsupportedContentTypeError extends HalClientError {
+    public readonly contentType: string;
+
+    constructor(contentType: string, info: HalClientErrorInfo) {
+        super("Unsupported response type " + contentType + ".", info);
+        this.name = "UnsupportedContentTypeError";
+        this.contentType = contentType;
+    }
+}
+
+/**
+ * This error is thrown when the server returns json that cannot be parsed.
+ */
+export class InvalidJsonError extends HalClientError {
+    /**
+     * The error thrown by JSON.parse.
+     */
+    public readonly cause: any;
+
+    constructor(cause: any, info: HalClientErrorInfo) {
+        super("Could not parse the json returned from " + info.href + ". " + (cause && cause.message ? cause.message : String(cause)), info);
+        this.name = "InvalidJsonError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * This error is thrown when the server returns an error status that does not have a halcyon error body.
+ */
+export class HttpStatusError extends HalClientError {
+    public readonly statusText: string;
+
+    constructor(statusText: string, info: HalClientErrorInfo) {
+        super("Generic server error with status " + info.status + " " + statusText + " returned.", info);
+        this.name = "HttpStatusError";
+        this.statusText = statusText;
+    }
+}
+
+/**
+ * This error is thrown when trying to load a rel that the client does not have.
+ */
+export class MissingRelError extends HalClientError {
+    constructor(rel: string) {
+        super('Cannot find ref "' + rel + '".', { rel: rel });
+        this.name = "MissingRelError";
+    }
+}
+
+/**
+ * This error is thrown when trying to send data to a link with a data mode the client does not understand.
+ */
+export class UnsupportedDataModeError extends HalClientError {
+    public readonly datamode: string;
+
+    constructor(datamode: string, info: HalClientErrorInfo) {
+        super("Cannot use data mode " + datamode + " with rel " + info.rel, info);
+        this.name = "UnsupportedDataModeError";
+        this.datamode = datamode;
+    }
+}
+
+/**
+ * This error is thrown when the data for a json patch link is not an array of patch operations.
+ */
+export class InvalidJsonPatchError extends HalClientError {
+    constructor(info: HalClientErrorInfo) {
+        super("Json patch data for " + info.href + " must be an array of operations.", info);
+        this.name = "InvalidJsonPatchError";
+    }
+}
+
+/**
+ * This error is thrown when a request is cancelled, either by its abort signal
+ * or because its timeout expired.
+ */
+export class RequestCancelledError extends HalClientError {
+    private timedOut: boolean;
+
+    constructor(timedOut: boolean, info: HalClientErrorInfo) {
+        super(timedOut ? "Request to " + info.href + " timed out." : "Request to " + info.href + " was cancelled.", info);
+        this.name = "RequestCancelledError";
+        this.timedOut = timedOut;
+    }
+
+    /**
+     * Determine if the request was cancelled because its timeout expired.
+     * @returns True if the request timed out, false if it was aborted by its signal.
+     */
+    isTimeout(): boolean {
+        return this.timedOut;
+    }
+}
+
+/**
+ * This error is thrown when a link call could not be sent because there was no connection and it
+ * was stored by the offline handler in the settings to be sent later.
+ */
+export class RequestQueuedError extends HalClientError {
+    /**
+     * The request that was stored.
+     */
+    public readonly request: OfflineRequest;
+
+    /**
+     * The NetworkError the request failed with.
+     */
+    public readonly cause: NetworkError;
+
+    constructor(request: OfflineRequest, cause: NetworkError) {
+        super("Could not send " + request.href + ", it will be sent when the connection returns.", { href: request.href, rel: request.rel });
+        this.name = "RequestQueuedError";
+        this.request = request;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Options that can be passed to a single request.
+ */
+export interface RequestOptions {
+    /**
+     * A signal that will cancel the request when it is aborted.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * The number of milliseconds to wait for the request before it is cancelled.
+     */
+    timeout?: number;
+
+    /**
+     * A validator to check the request data with before it is sent.
+     */
+    validator?: RequestValidator;
+
+    /**
+     * False to reject with a NetworkError if there is no connection, even if the settings have an offline handler.
+     */
+    offline?: boolean;
+}
+
+/**
+ * This interface validates request data before it is sent to the server.
+ */
+export interface RequestValidator {
+    /**
+     * Validate the data for a link. The returned promise should reject with a FormErrors
+     * if the data is not valid.
+     * @param client - The client that has the link.
+     * @param ref - The link the data will be sent to.
+     * @param data - The data to validate. This is the data as it will be sent, converted with the json
+     * settings of the client, so dates are ISO-8601 strings and enums are names. Blobs are left as they are.
+     */
+    Validate(client: HalEndpointClient, ref: string, data: any): Promise<void>;
+}
+
+export interface LoadOptions extends RequestOptions {
+    reqBody?: any;
+    contentType?: string;
+    headers?: { [key: string]: string };
+
+    /**
+     * The rel of the link being loaded, this is set by the client when loading one of its links.
+     */
+    rel?: string;
+
+    /**
+     * The datamode used to send the data, this is set by the client so it can be reported to observers.
+     */
+    datamode?: string;
+}
+
+/**
+ * The progress of an upload.
+ */
+export interface UploadProgress {
+    /**
+     * The number of bytes sent so far.
+     */
+    loaded: number;
+
+    /**
+     * The total number of bytes to send.
+     */
+    total: number;
+}
+
+/**
+ * Options for uploads.
+ */
+export interface UploadOptions extends RequestOptions {
+    /**
+     * Called as the upload progresses. This is always called when the upload starts and
+     * finishes, use stream to get updates while the body is sent. Without stream, or in
+     * browsers that can't stream request bodies, only the start and the end are reported.
+     */
+    onProgress?: (progress: UploadProgress) => void;
+
+    /**
+     * True to send the body as a stream so progress is reported as it is sent. This only works if the
+     * fetcher and server support streaming request bodies, currently only Chromium browsers over HTTP/2
+     * can. The body is sent normally if the browser can't stream it. Streamed uploads are never retried.
+     * To show progress in other browsers, split large files into chunks with ChunkedUpload.
+     */
+    stream?: boolean;
+
+    /**
+     * Additional headers to send with the upload.
+     */
+    headers?: { [key: string]: string };
+}
+
+/**
+ * The progress of a download.
+ */
+export interface DownloadProgress {
+    /**
+     * The number of bytes received so far.
+     */
+    loaded: number;
+
+    /**
+     * The total number of bytes, this is undefined if the server did not send a Content-Length.
+     */
+    total?: number;
+}
+
+/**
+ * Options for downloads. The signal and timeout cover reading the body too.
+ */
+export interface DownloadOptions extends RequestOptions {
+    /**
+     * Called as the body is received.
+     */
+    onProgress?: (progress: DownloadProgress) => void;
+
+    /**
+     * Additional headers to send with the download.
+     */
+    headers?: { [key: string]: string };
+}
+
+/**
+ * A downloaded file.
+ */
+export interface DownloadResult<TBody> {
+    /**
+     * The file name from the Content-Disposition header, undefined if there wasn't one.
+     */
+    fileName?: string;
+
+    /**
+     * The content type of the file.
+     */
+    contentType?: string;
+
+    /**
+     * The size of the file in bytes. For streams this comes from the Content-Length header and will be undefined if there wasn't one.
+     */
+    size?: number;
+
+    /**
+     * The file content.
+     */
+    body: TBody;
+
+    /**
+     * The response the file came from, the body has already been used.
+     */
+    response: Response;
+}
+
+/**
+ * A cached response for a link.
+ */
+export interface ResponseCacheEntry {
+    /**
+     * The response body as it was sent from the server.
+     */
+    body: string;
+
+    /**
+     * The content type of the response, this is used to parse the body again.
+     */
+    contentType?: string;
+
+    /**
+     * The ETag header from the response, if there was one.
+     */
+    etag?: string;
+
+    /**
+     * The Last-Modified header from the response, if there was one.
+     */
+    lastModified?: string;
+
+    /**
+     * The time in milliseconds since the epoch that this entry expires. Until then the
+     * entry will be used without asking the server. If this is undefined the server is always asked.
+     * The client sets this from the Cache-Control max-age of the response.
+     */
+    expires?: number;
+}
+
+/**
+ * This interface stores responses for GET links. The client will send the conditional headers
+ * for any cached entries and reuse the cached body when the server says it has not changed.
+ * Only responses with an ETag, Last-Modified or Cache-Control max-age are stored and responses
+ * with Cache-Control no-store or private never are.
+ */
+export interface ResponseCache {
+    /**
+     * Get the cached entry for an href.
+     * @param href - The href of the link.
+     * @returns The entry or undefined if there is nothing cached.
+     */
+    Get(href: string): ResponseCacheEntry | undefined;
+
+    /**
+     * Store an entry for an href.
+     * @param href - The href of the link.
+     * @param entry - The entry to store.
+     */
+    Set(href: string, entry: ResponseCacheEntry): void;
+
+    /**
+     * Remove any entries for an href. This is called when a link that is not a GET succeeds
+     * and when a GET returns a response that can't be cached.
+     * @param href - The href of the link.
+     */
+    Invalidate(href: string): void;
+}
+
+/**
+ * A call to a link that could not be sent because there was no connection.
+ */
+export interface OfflineRequest {
+    /**
+     * The id of the request in the offline store, this is set when the request is stored.
+     */
+    id?: number;
+
+    /**
+     * The rel of the link that was called.
+     */
+    rel: string;
+
+    /**
+     * The href of the link.
+     */
+    href: string;
+
+    /**
+     * The method of the link.
+     */
+    method: string;
+
+    /**
+     * The datamode the data was sent with, undefined for a blob upload.
+     */
+    datamode?: string;
+
+    /**
+     * The data that was sent to the link, FileInfo values keep their blobs. This is undefined if there was no data.
+     */
+    data?: any;
+
+    /**
+     * The additional headers the request was sent with, such as the headers from the upload options.
+     */
+    headers?: { [key: string]: string };
+
+    /**
+     * The time in milliseconds since the epoch that the request was queued.
+     */
+    queued: number;
+}
+
+/**
+ * This interface stores link calls that failed because there was no connection, so they can be sent later.
+ */
+export interface OfflineHandler {
+    /**
+     * Store a request to send later.
+     * @param request - The request that could not be sent.
+     * @returns The stored request with its id.
+     */
+    Enqueue(request: OfflineRequest): Promise<OfflineRequest>;
+}
+
+/**
+ * Settings that are shared by a client and all of the clients loaded from it.
+ */
+export interface HalEndpointClientSettings {
+    /**
+     * The cache to use for GET links, if this is undefined nothing is cached.
+     */
+    cache?: ResponseCache;
+
+    /**
+     * The policy to use to retry failed requests, if this is undefined requests are not retried.
+     */
+    retry?: RetryPolicy;
+
+    /**
+     * The middleware to run for each request. The request functions run in order and the
+     * response and data functions run in reverse order, so the first middleware sees
+     * the request first and the response last.
+     */
+    middleware?: HalMiddleware[];
+
+    /**
+     * Handlers for data modes that only apply to these clients. These are checked before the
+     * handlers added with registerDataMode, so they can also replace the built in modes.
+     */
+    dataModes?: { [mode: string]: DataModeHandler };
+
+    /**
+     * How to convert json to and from the data of the clients.
+     */
+    json?: JsonSettings;
+
+    /**
+     * The media types to send in the Accept header. Successful responses are only parsed if their
+     * media type is in this list. Defaults to application/json+halcyon, add application/hal+json or
+     * application/json to load those formats.
+     */
+    accept?: string[];
+
+    /**
+     * Parsers for media types that only apply to these clients. These are checked before the
+     * parsers added with registerMediaType, so they can also replace the built in parsers.
+     */
+    mediaTypes?: { [mediaType: string]: MediaTypeParser };
+
+    /**
+     * Observers that are told when requests start and finish, use these to log requests or collect timings.
+     */
+    observers?: RequestObserver[];
+
+    /**
+     * Where to store link calls that are not GETs when they fail because there is no connection. If this
+     * is undefined the calls reject with a NetworkError as usual, see OfflineQueue to send them later.
+     */
+    offline?: OfflineHandler;
+}
+
+/**
+ * Info about a request that is reported to observers.
+ */
+export interface RequestEvent {
+    /**
+     * A number that identifies the request, this is the same for all the events for a request.
+     */
+    id: number;
+
+    /**
+     * The rel of the link, this will be undefined if the link was loaded directly with HalEndpointClient.Load.
+     */
+    rel?: string;
+
+    href: string;
+    method: string;
+
+    /**
+     * The datamode used to send data to the link, undefined if no data was sent.
+     */
+    datamode?: string;
+
+    /**
+     * The traceparent header sent with the request, if there was one.
+     */
+    traceparent?: string;
+
+    /**
+     * The size of the request body in bytes. This is undefined if there is no body or if the size
+     * is not known until it is sent, such as for FormData.
+     */
+    requestSize?: number;
+}
+
+/**
+ * Info about a request that returned a response.
+ */
+export interface RequestEndEvent extends RequestEvent {
+    status: number;
+
+    /**
+     * The time the request took in milliseconds, this includes reading the body for links that are not raw.
+     */
+    duration: number;
+
+    /**
+     * The size of the response body in bytes, undefined if it is not known.
+     */
+    responseSize?: number;
+
+    /**
+     * True if the response came from the response cache without asking the server.
+     */
+    cached?: boolean;
+}
+
+/**
+ * Info about a request that failed.
+ */
+export interface RequestFailedEvent extends RequestEvent {
+    /**
+     * The error the request failed with.
+     */
+    error: any;
+
+    /**
+     * The status of the response, undefined if the request failed without one.
+     */
+    status?: number;
+
+    /**
+     * The time until the request failed in milliseconds.
+     */
+    duration: number;
+}
+
+/**
+ * Observes the requests made by the clients. All functions are optional. Any errors thrown by the
+ * observers are ignored, so they can't break the requests.
+ */
+export interface RequestObserver {
+    /**
+     * Called when a request is sent, after the request middleware has run.
+     */
+    OnRequestStart?(event: RequestEvent): void;
+
+    /**
+     * Called when a request returns a response. Responses with error statuses from links that are not raw
+     * are reported to OnRequestFailed instead.
+     */
+    OnRequestEnd?(event: RequestEndEvent): void;
+
+    /**
+     * Called when a request fails.
+     */
+    OnRequestFailed?(event: RequestFailedEvent): void;
+}
+
+/**
+ * Info about the response being parsed by a MediaTypeParser.
+ */
+export interface MediaTypeContext {
+    /**
+     * The url the data came from, use this to resolve relative hrefs.
+     */
+    url: string;
+
+    /**
+     * The reviver from the client's json settings, pass this to JSON.parse.
+     */
+    reviver?: (key: string, value: any) => any;
+}
+
+/**
+ * Converts the body of a response with a particular media type to hal data. The links
+ * should be converted to HalLinks and the embeds to arrays.
+ */
+export interface MediaTypeParser {
+    /**
+     * Parse a response body.
+     * @param text - The response body.
+     * @param context - Info about the response.
+     */
+    Parse(text: string, context: MediaTypeContext): HalData;
+}
+
+/**
+ * Settings for converting json. The same settings are used for responses and requests so
+ * values like dates can be loaded from a client and sent back again.
+ */
+export interface JsonSettings {
+    /**
+     * A reviver to run on the responses, see JSON.parse. This runs after the dates and big numbers are revived.
+     */
+    reviver?: (key: string, value: any) => any;
+
+    /**
+     * A replacer to run on data sent as json or form data, see JSON.stringify.
+     */
+    replacer?: (key: string, value: any) => any;
+
+    /**
+     * True to turn ISO-8601 date and time strings into Dates. Dates are always sent as ISO-8601 strings.
+     */
+    reviveDates?: boolean;
+
+    /**
+     * True to turn integers that are too large for a number into BigInts. This needs a browser that
+     * passes the source text to revivers. BigInts are sent as numbers if the browser supports JSON.rawJSON
+     * and as strings if it does not.
+     */
+    reviveBigInts?: boolean;
+
+    /**
+     * Enums the server sends by name, keyed by the name of the properties that use them. Pass the
+     * typescript enum, such as { status: OrderStatus }. The names are turned into the enum values when
+     * responses are parsed and back into names when data is sent. Properties with the same name always
+     * use the same enum, so give properties with different enums different names.
+     */
+    enums?: { [property: string]: any };
+}
+
+/**
+ * The request a data mode handler creates from a link and its data.
+ */
+export interface DataModeRequest {
+    /**
+     * The link to send the request to, return a new link to change the href or method.
+     */
+    link: HalLink;
+
+    /**
+     * The request body, undefined to send no body.
+     */
+    body?: any;
+
+    /**
+     * The content type of the body, leave this undefined to let the fetcher decide, such as for FormData.
+     */
+    contentType?: string;
+}
+
+/**
+ * Creates requests for links with a particular datamode.
+ */
+export interface DataModeHandler {
+    /**
+     * Create the request to send for a link.
+     * @param link - The link being loaded.
+     * @param data - The data to send to the link.
+     * @param settings - The settings of the client, use the json settings to serialize the data.
+     */
+    CreateRequest(link: HalLink, data: any, settings: HalEndpointClientSettings): DataModeRequest;
+}
+
+/**
+ * A request that is about to be sent. Middleware can change any of these values.
+ */
+export interface HalRequest {
+    /**
+     * The link to send the request to, replace this to change the href or method.
+     */
+    link: HalLink;
+
+    /**
+     * The rel of the link, this will be undefined if the link was loaded directly with HalEndpointClient.Load.
+     */
+    rel?: string;
+
+    /**
+     * The headers to send. The "bearer" header is a placeholder that tells the fetcher
+     * to add the access token, remove it if the token should not be sent.
+     */
+    headers: { [key: string]: string };
+
+    /**
+     * The request body.
+     */
+    body: any;
+}
+
+/**
+ * Middleware that can modify requests before they are sent and inspect the results.
+ * All functions are optional and can return a promise to do async work.
+ */
+export interface HalMiddleware {
+    /**
+     * Called before a request is sent, the request can be modified. The response cache uses the href
+     * of the link after this is called, the conditional headers for cached responses are added after it too.
+     * @param request - The request that will be sent.
+     */
+    OnRequest?(request: HalRequest): void | Promise<void>;
+
+    /**
+     * Called when a response is returned, before it is processed. Return a response to replace it.
+     * @param response - The response from the fetcher.
+     * @param request - The request that was sent.
+     */
+    OnResponse?(response: Response, request: HalRequest): void | Response | Promise<void | Response>;
+
+    /**
+     * Called with the parsed data from a successful response before a HalEndpointClient is created from it.
+     * This is not called for raw links.
+     * @param data - The parsed data, it can be modified.
+     * @param response - The response the data came from.
+     * @param request - The request that was sent.
+     */
+    OnData?(data: HalData, response: Response, request: HalRequest): void | Promise<void>;
+}
+
+/**
+ * A request and the response returned for it.
+ */
+interface HalExchange {
+    request: HalRequest;
+    response: Response;
+
+    /**
+     * The size of the response body in bytes, this is set once the body is read.
+     */
+    responseSize?: number;
+}
+
+/**
+ * Info about a failed attempt to load a link, passed to RetryPolicy.shouldRetry.
+ */
+export interface RetryContext {
+    /**
+     * The link being loaded.
+     */
+    link: HalLink;
+
+    /**
+     * The rel of the link, this will be undefined if the link was loaded directly with HalEndpointClient.Load.
+     */
+    rel?: string;
+
+    /**
+     * The number of the attempt that failed, starting at 1.
+     */
+    attempt: number;
+
+    /**
+     * The response from the server if one was returned.
+     */
+    response?: Response;
+
+    /**
+     * The error thrown by the fetcher if the request failed without a response.
+     */
+    error?: any;
+}
+
+/**
+ * Settings for retrying failed requests. Network failures and responses with one of the
+ * retryStatuses are retried with an exponential backoff. If the server sends a Retry-After
+ * header that delay is used instead.
+ */
+export interface RetryPolicy {
+    /**
+     * The total number of attempts to make, including the first one. Defaults to 3.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay before the first retry in milliseconds, this doubles with each retry. Defaults to 250.
+     */
+    baseDelay?: number;
+
+    /**
+     * The longest delay to wait in milliseconds. If the server asks for a longer delay with
+     * Retry-After the request is not retried. Defaults to 10000.
+     */
+    maxDelay?: number;
+
+    /**
+     * The response status codes to retry. Defaults to 408, 429, 502, 503 and 504.
+     */
+    retryStatuses?: number[];
+
+    /**
+     * The methods that can be retried. Defaults to GET, HEAD and OPTIONS, add others only if your
+     * server makes them safe to repeat.
+     */
+    methods?: string[];
+
+    /**
+     * Decide if a failed attempt should be retried. This is called for network failures and
+     * retryStatuses while there are attempts left. Return true to retry, even if the method is
+     * not in methods, false to stop or undefined to retry only the methods in methods.
+     */
+    shouldRetry?: (context: RetryContext) => boolean | undefined;
+}
+
+const DefaultRetryStatuses = [408, 429, 502, 503, 504];
+const DefaultRetryMethods = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Fetch a link, retrying according to the policy.
+ */
+function fetchWithRetry(link: HalLink, rel: string | undefined, fetcher: Fetcher, init: RequestInit, policy: RetryPolicy): Promise<Response> {
+    var maxAttempts = policy.maxAttempts !== undefined ? policy.maxAttempts : 3;
+    var methods = policy.methods || DefaultRetryMethods;
+    var method = (link.method || "GET").toUpperCase();
+    var isRetryMethod = methods.some(m => m.toUpperCase() === method);
+    //A streamed body can only be read once, so it can't be sent again
+    var canRetryBody = !isStreamBody(init.body);
+
+    var attempt = (attemptNumber: number): Promise<Response> => {
+        return fetcher.fetch(link.href, init)
+            .then(response => {
+                var retryStatuses = policy.retryStatuses || DefaultRetryStatuses;
+                if (response.ok || retryStatuses.indexOf(response.status) === -1) {
+                    return response;
+                }
+                var delay = getRetryDelay(policy, attemptNumber, response);
+                if (canRetryBody && attemptNumber < maxAttempts && delay !== undefined
+                    && allowRetry(policy, isRetryMethod, { link: link, rel: rel, attempt: attemptNumber, response: response })) {
+                    //This response is not used, cancel its body so the connection is released
+                    if (response.body) {
+                        response.body.cancel().catch(() => { });
+                    }
+                    return waitForRetry(delay, init.signal).then(() => attempt(attemptNumber + 1));
+                }
+                return response;
+            },
+            error => {
+                //Never retry cancelled requests
+                if (init.signal && init.signal.aborted) {
+                    throw error;
+                }
+                var delay = getRetryDelay(policy, attemptNumber);
+                if (canRetryBody && attemptNumber < maxAttempts
+                    && allowRetry(policy, isRetryMethod, { link: link, rel: rel, attempt: attemptNumber, error: error })) {
+                    return waitForRetry(delay, init.signal).then(() => attempt(attemptNumber + 1));
+                }
+                throw error;
+            });
+    };
+
+    return attempt(1);
+}
+
+/**
+ * Ask the policy's shouldRetry if there is one, if it has no opinion only the policy's methods are retried.
+ */
+function allowRetry(policy: RetryPolicy, isRetryMethod: boolean, context: RetryContext): boolean {
+    var decision = policy.shouldRetry !== undefined ? policy.shouldRetry(context) : undefined;
+    return decision !== undefined && decision !== null ? decision : isRetryMethod;
+}
+
+/**
+ * Get the delay before the next attempt, returns undefined if the server asked for a delay longer than the max.
+ */
+function getRetryDelay(policy: RetryPolicy, attemptNumber: number, response?: Response): number | undefined {
+    var baseDelay = policy.baseDelay !== undefined ? policy.baseDelay : 250;
+    var maxDelay = policy.maxDelay !== undefined ? policy.maxDelay : 10000;
+
+    if (response !== undefined) {
+        var retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+        if (retryAfter !== undefined) {
+            return retryAfter <= maxDelay ? retryAfter : undefined;
+        }
+    }
+
+    //Exponential backoff, randomize the upper half of the delay so clients don't retry together
+    var delay = Math.min(maxDelay, baseDelay * Math.pow(2, attemptNumber - 1));
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Parse a Retry-After header, it can be a number of seconds or an http date.
+ * @returns The delay in milliseconds or undefined if there is no valid header.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (header === null || header === undefined) {
+        return undefined;
+    }
+    var seconds = Number(header);
+    if (header.trim() !== "" && !isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    var date = Date.parse(header);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+function waitForRetry(delay: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal && signal.aborted) {
+            reject(new Error("Request aborted."));
+            return;
+        }
+        var onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error("Request aborted."));
+        };
+        var timer = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener("abort", onAbort);
+            }
+            resolve();
+        }, delay);
+        if (signal) {
+            signal.addEventListener("abort", onAbort);
+        }
+    });
+}
+
+function isStreamBody(body: any): boolean {
+    return typeof ReadableStream !== "undefined" && body instanceof ReadableStream;
+}
+
+var requestStreamsSupported: boolean | undefined = undefined;
+
+/**
+ * Determine if fetch can send a ReadableStream as a request body. Browsers that can't will
+ * convert the stream to a string and add a text/plain content type.
+ */
+function supportsRequestStreams(): boolean {
+    if (requestStreamsSupported === undefined) {
+        requestStreamsSupported = false;
+        try {
+            var duplexAccessed = false;
+            var hasContentType = new Request("http://localhost", <any>{
+                body: new ReadableStream(),
+                method: "POST",
+                get duplex() {
+                    duplexAccessed = true;
+                    return "half";
+                }
+            }).headers.has("Content-Type");
+            requestStreamsSupported = duplexAccessed && !hasContentType;
+        }
+        catch (err) {
+            //Leave it unsupported
+        }
+    }
+    return requestStreamsSupported;
+}
+
+/**
+ * Create a stream that reads a blob and reports the progress as it is read by the fetcher.
+ */
+function createProgressBody(body: Blob, onProgress: (progress: UploadProgress) => void): ReadableStream<Uint8Array> {
+    var loaded = 0;
+    var reader: ReadableStreamDefaultReader<Uint8Array>;
+    return new ReadableStream<Uint8Array>({
+        start() {
+            reader = body.stream().getReader();
+        },
+        pull(controller) {
+            return reader.read().then(result => {
+                if (result.done) {
+                    controller.close();
+                    return;
+                }
+                loaded += result.value.byteLength;
+                controller.enqueue(result.value);
+                onProgress({ loaded: loaded, total: body.size });
+            });
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        }
+    });
+}
+
+/**
+ * Wrap a response body to report the progress as it is read. If the canceller's signal aborts
+ * the stream errors with the cancel error. The canceller is finished when the stream ends.
+ */
+function createDownloadBody(response: Response, total: number | undefined, onProgress: (progress: DownloadProgress) => void, canceller: RequestCanceller): ReadableStream<Uint8Array> {
+    var reader = response.body !== null ? response.body.getReader() : undefined;
+    var signal = canceller.signal;
+    var loaded = 0;
+    var done = false;
+    var streamController: ReadableStreamDefaultController<Uint8Array>;
+
+    var finish = () => {
+        if (!done) {
+            done = true;
+            if (signal !== undefined) {
+                signal.removeEventListener("abort", onAbort);
+            }
+            canceller.finish();
+        }
+    };
+    var onAbort = () => {
+        if (!done) {
+            streamController.error(canceller.getError(new Error("Request aborted.")));
+            finish();
+            if (reader !== undefined) {
+                reader.cancel().catch(makeVoid);
+            }
+        }
+    };
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            streamController = controller;
+            if (signal !== undefined) {
+                if (signal.aborted) {
+                    onAbort();
+                    return;
+                }
+                signal.addEventListener("abort", onAbort);
+            }
+            onProgress({ loaded: 0, total: total });
+        },
+        pull(controller) {
+            if (reader === undefined) {
+                controller.close();
+                finish();
+                return;
+            }
+            return reader.read().then(result => {
+                if (done) {
+                    return;
+                }
+                if (result.done) {
+                    controller.close();
+                    finish();
+                    return;
+                }
+                loaded += result.value.byteLength;
+                controller.enqueue(result.value);
+                onProgress({ loaded: loaded, total: total });
+            },
+            err => {
+                if (!done) {
+                    controller.error(canceller.getError(err));
+                    finish();
+                }
+            });
+        },
+        cancel(reason) {
+            finish();
+            if (reader !== undefined) {
+                return reader.cancel(reason);
+            }
+        }
+    });
+}
+
+/**
+ * Read all the chunks from a stream.
+ */
+function readAllChunks(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+    var reader = stream.getReader();
+    var chunks: Uint8Array[] = [];
+    var read = (): Promise<Uint8Array[]> => reader.read().then(result => {
+        if (result.done) {
+            return chunks;
+        }
+        chunks.push(result.value);
+        return read();
+    });
+    return read();
+}
+
+var nextRequestId = 1;
+
+function now(): number {
+    return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+/**
+ * Get the size of a request body in bytes, returns undefined if it can't be determined without reading it.
+ */
+function getBodySize(body: any): number | undefined {
+    if (body === undefined || body === null) {
+        return undefined;
+    }
+    if (typeof body === "string") {
+        return new TextEncoder().encode(body).length;
+    }
+    if (body instanceof URLSearchParams) {
+        return new TextEncoder().encode(body.toString()).length;
+    }
+    if (body instanceof Blob) {
+        return body.size;
+    }
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+        return body.byteLength;
+    }
+    return undefined;
+}
+
+/**
+ * Get the size of a response body from its Content-Length, returns undefined if there is no Content-Length.
+ */
+function getContentLength(response: Response): number | undefined {
+    var contentLength = response.headers.get("Content-Length");
+    if (contentLength === null || contentLength === "" || isNaN(Number(contentLength))) {
+        return undefined;
+    }
+    return Number(contentLength);
+}
+
+/**
+ * Create the cache entry for a response. Responses are only cached if they can be checked with the
+ * server, with an ETag or Last-Modified, or if Cache-Control gives them a max-age. Responses with
+ * Cache-Control no-store or private are never cached.
+ * @returns The entry or undefined if the response can't be cached.
+ */
+function createCacheEntry(response: Response, body: string): ResponseCacheEntry | undefined {
+    var expires = getCacheExpiration(response);
+    var etag = response.headers.get("ETag") || undefined;
+    var lastModified = response.headers.get("Last-Modified") || undefined;
+    if (expires === null || (expires === undefined && etag === undefined && lastModified === undefined)) {
+        return undefined;
+    }
+    return {
+        body: body,
+        contentType: response.headers.get("Content-Type") || undefined,
+        etag: etag,
+        lastModified: lastModified,
+        expires: expires
+    };
+}
+
+/**
+ * Get the time a response expires from its Cache-Control max-age.
+ * @returns The time in milliseconds since the epoch, undefined if it has no max-age or null if it must not be stored.
+ */
+function getCacheExpiration(response: Response): number | undefined | null {
+    var cacheControl = response.headers.get("Cache-Control");
+    if (!cacheControl) {
+        return undefined;
+    }
+    var expires: number | undefined = undefined;
+    var directives = cacheControl.split(",");
+    for (var i = 0; i < directives.length; ++i) {
+        var directive = directives[i].trim().toLowerCase();
+        if (directive === "no-store" || directive === "private" || directive.indexOf("private=") === 0) {
+            return null;
+        }
+        if (directive === "no-cache") {
+            return undefined; //Always check with the server, even if there is a max-age
+        }
+        var maxAge = /^max-age\s*=\s*"?(\d+)"?$/.exec(directive);
+        if (maxAge !== null && Number(maxAge[1]) > 0) {
+            expires = Date.now() + Number(maxAge[1]) * 1000;
+        }
+    }
+    return expires;
+}
+
+/**
+ * Reports the events for a single request to the observers.
+ */
+class RequestObservation {
+    private event: RequestEvent;
+    private startTime: number;
+
+    constructor(link: HalLink, options: LoadOptions, private observers: RequestObserver[] | undefined) {
+        this.startTime = now();
+        this.event = {
+            id: nextRequestId++,
+            rel: options.rel,
+            href: link.href,
+            method: link.method || "GET",
+            datamode: options.datamode
+        };
+    }
+
+    /**
+     * Report the start of the request. Middleware can change the request, so this reports what is sent.
+     */
+    public start(request: HalRequest): void {
+        if (!this.hasObservers()) {
+            return;
+        }
+        this.startTime = now();
+        this.event = {
+            ...this.event,
+            href: request.link.href,
+            method: request.link.method || "GET",
+            traceparent: request.headers["traceparent"] || undefined,
+            requestSize: getBodySize(request.body)
+        };
+        this.notify(o => o.OnRequestStart && o.OnRequestStart({ ...this.event }));
+    }
+
+    public end(response: Response, responseSize: number | undefined, cached?: boolean): void {
+        if (!this.hasObservers()) {
+            return;
+        }
+        var event: RequestEndEvent = {
+            ...this.event,
+            status: response.status,
+            duration: now() - this.startTime,
+            responseSize: responseSize
+        };
+        if (cached) {
+            event.cached = true;
+        }
+        this.notify(o => o.OnRequestEnd && o.OnRequestEnd(event));
+    }
+
+    public fail(error: any): void {
+        if (!this.hasObservers()) {
+            return;
+        }
+        this.notify(o => o.OnRequestFailed && o.OnRequestFailed({
+            ...this.event,
+            error: error,
+            //Keep the status from HalClientErrors or HalErrors
+            status: error && error.status !== undefined ? error.status : (error && error.getStatusCode ? error.getStatusCode() : undefined),
+            duration: now() - this.startTime
+        }));
+    }
+
+    private hasObservers(): boolean {
+        return this.observers !== undefined && this.observers.length > 0;
+    }
+
+    private notify(callback: (observer: RequestObserver) => void): void {
+        for (var i = 0; i < this.observers.length; ++i) {
+            try {
+                callback(this.observers[i]);
+            }
+            catch (err) {
+                //Observers can't break requests
+            }
+        }
+    }
+}
+
+/**
+ * Combines the signal and timeout from a RequestOptions into a single signal that can
+ * be given to the fetcher and translates the resulting abort errors.
+ */
+class RequestCanceller {
+    private controller: AbortController;
+    private parentSignal: AbortSignal;
+    private timer: any;
+    private timedOut: boolean = false;
+    private abortListener = () => this.controller.abort();
+
+    constructor(private href: string, private rel: string | undefined, options: RequestOptions) {
+        if (options.signal === undefined && options.timeout === undefined) {
+            return; //Nothing to cancel with, leave the signal undefined
+        }
+
+        this.controller = new AbortController();
+        if (options.signal) {
+            this.parentSignal = options.signal;
+            if (this.parentSignal.aborted) {
+                this.controller.abort();
+            }
+            else {
+                this.parentSignal.addEventListener("abort", this.abortListener);
+            }
+        }
+        if (options.timeout !== undefined) {
+            this.timer = setTimeout(() => {
+                this.timedOut = true;
+                this.controller.abort();
+            }, options.timeout);
+        }
+    }
+
+    public get signal(): AbortSignal | undefined {
+        return this.controller ? this.controller.signal : undefined;
+    }
+
+    /**
+     * Get the error to report for err, if the request was aborted this will be a RequestCancelledError.
+     */
+    public getError(err: any): any {
+        if (this.controller && this.controller.signal.aborted) {
+            return new RequestCancelledError(this.timedOut, { href: this.href, rel: this.rel });
+        }
+        return err;
+    }
+
+    /**
+     * Release the timer and listeners, call when the request is complete.
+     */
+    public finish(): void {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        if (this.parentSignal) {
+            this.parentSignal.removeEventListener("abort", this.abortListener);
+            this.parentSignal = undefined;
+        }
+    }
+}
+
+//The docs loaded by GetLinkDoc, these are kept for each settings object so clients loaded from each other share them
+const docCaches = new WeakMap<HalEndpointClientSettings, { [key: string]: Promise<HalEndpointDoc> }>();
+
+//The listeners added with OnResourceChanged, these are kept for each settings object so clients loaded from each other share them
+const changeListeners = new WeakMap<HalEndpointClientSettings, ((href: string, method: string) => void)[]>();
+
+function notifyResourceChanged(settings: HalEndpointClientSettings, link: HalLink): void {
+    var listeners = changeListeners.get(settings);
+    if (listeners !== undefined) {
+        //Copy the listeners, they can remove themselves when called
+        var current = listeners.slice();
+        for (var i = 0; i < current.length; ++i) {
+            try {
+                current[i](link.href, link.method);
+            }
+            catch (err) {
+                //Listeners can't break requests
+            }
+        }
+    }
 }
 
 /**
@@ -165,77 +1722,321 @@ export function makeVoid(): void{
  * from the data, so if you get it it won't contain that info.
  */
 export class HalEndpointClient {
-    private static halcyonJsonMimeType = "application/json+halcyon";
     private static jsonMimeType = "application/json";
+    private static problemJsonMimeType = "application/problem+json";
+    private static defaultAccept = [MEDIA_Halcyon];
 
     /**
      * Load a hal link from an endpoint.
      * @param link - The link to load
      * @param fetcher - The fetcher to use to load the link
      * @param options - Additional request options
+     * @param settings - The settings for the client, these will be shared with any clients loaded from the result.
      * @returns A HalEndpointClient for the link.
      */
-    public static Load(link: HalLink, fetcher: Fetcher, options?: LoadOptions): Promise<HalEndpointClient> {
+    public static Load(link: HalLink, fetcher: Fetcher, options?: LoadOptions, settings?: HalEndpointClientSettings): Promise<HalEndpointClient> {
         options = options || {};
+        settings = settings || {};
+
+        var cache = HalEndpointClient.IsCacheable(link, options) ? settings.cache : undefined;
 
-        return HalEndpointClient.LoadRaw(link, fetcher, options)
-               .then(r => HalEndpointClient.processResult(r, fetcher));
+        //The canceller covers reading the body too, so it is not finished until the result is processed
+        var canceller = new RequestCanceller(link.href, options.rel, options);
+        var observation = new RequestObservation(link, options, settings.observers);
+        return HalEndpointClient.PrepareRequest(link, options, settings)
+               .then(request => {
+                   //The cache uses the href the middleware sends the request to
+                   var cacheHref = cache !== undefined ? request.link.href : undefined;
+                   var cached: ResponseCacheEntry | undefined = undefined;
+                   if (cache !== undefined) {
+                       cached = cache.Get(cacheHref);
+                       if (cached !== undefined) {
+                           if (cached.expires !== undefined && cached.expires > Date.now()) {
+                               return HalEndpointClient.LoadCached(cached, request, fetcher, settings, observation);
+                           }
+                           if (cached.etag) {
+                               request.headers["If-None-Match"] = cached.etag;
+                           }
+                           if (cached.lastModified) {
+                               request.headers["If-Modified-Since"] = cached.lastModified;
+                           }
+                       }
+                   }
+
+                   var exchange: HalExchange;
+                   return HalEndpointClient.SendPrepared(request, fetcher, canceller.signal, settings, observation)
+                       .then(e => {
+                           exchange = e;
+                           return HalEndpointClient.processResult(e, fetcher, settings, cacheHref, cached);
+                       })
+                       .then(client => {
+                           //A successful change to a resource means any cached copy is out of date
+                           if (!HalEndpointClient.IsSafeMethod(link.method)) {
+                               if (settings.cache !== undefined) {
+                                   settings.cache.Invalidate(exchange.request.link.href);
+                               }
+                               notifyResourceChanged(settings, link);
+                           }
+                           observation.end(exchange.response, exchange.responseSize);
+                           return client;
+                       });
+               })
+               .catch(err => {
+                   var error = canceller.getError(err);
+                   observation.fail(error);
+                   throw error;
+               })
+               .finally(() => canceller.finish());
     }
 
-    private static LoadRaw(link: HalLink, fetcher: Fetcher, options?: LoadOptions): Promise<Response> {
+    /**
+     * Send a request for a link and return the raw response. Any cancellation only covers the
+     * request until the response is returned, reading the body is up to the caller.
+     */
+    private static LoadRaw(link: HalLink, fetcher: Fetcher, options?: LoadOptions, settings?: HalEndpointClientSettings): Promise<Response> {
         options = options || {};
+        settings = settings || {};
+
+        var canceller = new RequestCanceller(link.href, options.rel, options);
+        var observation = new RequestObservation(link, options, settings.observers);
+        return HalEndpointClient.PrepareRequest(link, options, settings)
+               .then(request => HalEndpointClient.SendPrepared(request, fetcher, canceller.signal, settings, observation))
+               .then(e => {
+                   var r = e.response;
+                   if (r.ok && !HalEndpointClient.IsSafeMethod(link.method)) {
+                       if (settings.cache !== undefined) {
+                           settings.cache.Invalidate(e.request.link.href);
+                       }
+                       notifyResourceChanged(settings, link);
+                   }
+                   //The body is not read, so the size is only known from the headers
+                   observation.end(r, getContentLength(r));
+                   return r;
+               })
+               .catch(err => {
+                   var error = canceller.getError(err);
+                   observation.fail(error);
+                   throw error;
+               })
+               .finally(() => canceller.finish());
+    }
 
-        var headers = {
-            "Accept": HalEndpointClient.halcyonJsonMimeType,
+    /**
+     * Create the request for a link and run the request middleware on it.
+     */
+    private static PrepareRequest(link: HalLink, options: LoadOptions, settings: HalEndpointClientSettings): Promise<HalRequest> {
+        var headers: { [key: string]: string } = {
+            "Accept": (settings.accept || HalEndpointClient.defaultAccept).join(", "),
             "bearer": null //temp to get the bearer token added automatically
         };
         if (options.contentType !== undefined) {
             headers["Content-Type"] = options.contentType;
         }
-        return fetcher.fetch(link.href, {
-            method: link.method,
-            body: options.reqBody,
-            headers: headers
+        for (var key in options.headers) {
+            headers[key] = options.headers[key];
+        }
+        var request: HalRequest = {
+            link: link,
+            rel: options.rel,
+            headers: headers,
+            body: options.reqBody
+        };
+        var middleware = settings.middleware || [];
+
+        //Run the request middleware in order
+        var prepared: Promise<void> = Promise.resolve();
+        for (let i = 0; i < middleware.length; ++i) {
+            if (middleware[i].OnRequest !== undefined) {
+                prepared = prepared.then(() => middleware[i].OnRequest(request));
+            }
+        }
+        return prepared.then(() => request);
+    }
+
+    /**
+     * Send a request the middleware has run on and run the response middleware on the result.
+     */
+    private static SendPrepared(request: HalRequest, fetcher: Fetcher, signal: AbortSignal | undefined, settings: HalEndpointClientSettings, observation: RequestObservation): Promise<HalExchange> {
+        var middleware = settings.middleware || [];
+        var result = Promise.resolve().then(() => {
+            if (signal !== undefined && signal.aborted) {
+                throw new Error("Request aborted."); //Cancelled while the middleware ran, the canceller will report this
+            }
+            var init: RequestInit = {
+                method: request.link.method,
+                body: request.body,
+                headers: request.headers
+            };
+            if (signal !== undefined) {
+                init.signal = signal;
+            }
+            if (isStreamBody(request.body)) {
+                (<any>init).duplex = "half"; //Required by fetch to send a stream
+            }
+            observation.start(request);
+            var fetched = settings.retry !== undefined
+                ? fetchWithRetry(request.link, request.rel, fetcher, init, settings.retry)
+                : fetcher.fetch(request.link.href, init);
+            return fetched.catch(err => {
+                if (signal !== undefined && signal.aborted) {
+                    throw err; //Cancelled, the canceller will report this
+                }
+                throw new NetworkError(err, { href: request.link.href, rel: request.rel });
+            });
         });
+
+        //Run the response middleware in reverse order
+        for (let i = middleware.length - 1; i >= 0; --i) {
+            if (middleware[i].OnResponse !== undefined) {
+                result = result.then(response => Promise.resolve(middleware[i].OnResponse(response, request))
+                    .then(replacement => replacement || response));
+            }
+        }
+        return result.then(response => ({ request: request, response: response }));
     }
 
-    private static processResult(response: Response, fetcher: Fetcher): Promise<HalEndpointClient> {
+    private static processResult(exchange: HalExchange, fetcher: Fetcher, settings: HalEndpointClientSettings, cacheHref?: string, cached?: ResponseCacheEntry): Promise<HalEndpointClient> {
+        var response = exchange.response;
+        if (response.status === 304 && cached !== undefined) {
+            //Not modified, use the cached body, storing it again updates its expiration from the new response
+            var expires = getCacheExpiration(response);
+            if (expires === null) {
+                settings.cache.Invalidate(cacheHref);
+            }
+            else {
+                settings.cache.Set(cacheHref, { ...cached, expires: expires });
+            }
+            return HalEndpointClient.CreateClient(HalEndpointClient.ParseCached(cached, cacheHref, settings), exchange, fetcher, settings);
+        }
+
         return response.text().then((data) => {
-            var parsedData = HalEndpointClient.parseResult(response, data);
+            var contentLength = getContentLength(response);
+            exchange.responseSize = contentLength !== undefined ? contentLength : new TextEncoder().encode(data).length;
+            var parsedData: HalData;
+            try {
+                parsedData = HalEndpointClient.parseResult(response, data, exchange.request, settings);
+            }
+            catch (err) {
+                //If an error body can't be read, the status is the more useful error
+                if (!response.ok && (err instanceof UnsupportedContentTypeError || err instanceof InvalidJsonError)) {
+                    throw new HttpStatusError(response.statusText, HalEndpointClient.GetErrorInfo(response, data, exchange.request));
+                }
+                throw err;
+            }
 
             if (response.ok) {
-                return new HalEndpointClient(parsedData, fetcher);
+                if (cacheHref !== undefined) {
+                    var entry = parsedData !== null ? createCacheEntry(response, data) : undefined;
+                    if (entry !== undefined) {
+                        settings.cache.Set(cacheHref, entry);
+                    }
+                    else {
+                        settings.cache.Invalidate(cacheHref); //Don't keep using an older response
+                    }
+                }
+                if (parsedData === null || parsedData === undefined) {
+                    //An empty body has no data or links, the same as a response without a content type
+                    parsedData = {
+                        _links: undefined,
+                        _embedded: undefined
+                    };
+                }
+                return HalEndpointClient.CreateClient(parsedData, exchange, fetcher, settings);
             }
             else {
-                //Does the error look like one of our custom server errors?
-                if ((<any>parsedData).message !== undefined) {
+                //Does the error look like one of our custom server errors or problem details?
+                if (parsedData && ((<any>parsedData).message !== undefined || isProblemDetails(parsedData))) {
                     throw new HalError(<any>parsedData, response.status);
                 }
 
-                throw new Error("Generic server error with status " + response.status + " " + response.statusText + " returned.");
+                throw new HttpStatusError(response.statusText, HalEndpointClient.GetErrorInfo(response, data, exchange.request));
             }
         });
     }
 
-    private static parseResult(response: Response, data: string, jsonParseReviver?: (key: string, value: any) => any): HalData {
+    /**
+     * Get the error for a response that failed that was not processed as hal, such as a download.
+     */
+    private static GetResponseError(response: Response, data: string, request: HalRequest, settings: HalEndpointClientSettings): HalError | HttpStatusError {
+        var parsedData: HalData = null;
+        try {
+            parsedData = HalEndpointClient.parseResult(response, data, request, settings);
+        }
+        catch (err) {
+            //Not json, the status will be reported
+        }
+        if (parsedData && ((<any>parsedData).message !== undefined || isProblemDetails(parsedData))) {
+            return new HalError(<any>parsedData, response.status);
+        }
+        return new HttpStatusError(response.statusText, HalEndpointClient.GetErrorInfo(response, data, request));
+    }
+
+    private static GetErrorInfo(response: Response, data: string, request: HalRequest): HalClientErrorInfo {
+        return {
+            status: response.status,
+            href: request.link.href,
+            rel: request.rel,
+            responseText: data
+        };
+    }
+
+    /**
+     * Run the data middleware and create the client for a successful response.
+     */
+    private static CreateClient(data: HalData, exchange: HalExchange, fetcher: Fetcher, settings: HalEndpointClientSettings): Promise<HalEndpointClient> {
+        var middleware = settings.middleware || [];
+        var processed: Promise<void> = Promise.resolve();
+        for (let i = middleware.length - 1; i >= 0; --i) {
+            if (middleware[i].OnData !== undefined) {
+                processed = processed.then(() => middleware[i].OnData(data, exchange.response, exchange.request));
+            }
+        }
+        return processed.then(() => new HalEndpointClient(data, fetcher, settings));
+    }
+
+    /**
+     * Determine if a link's response can be cached, only GET links without a body are cached.
+     */
+    private static IsCacheable(link: HalLink, options: LoadOptions): boolean {
+        return HalEndpointClient.IsSafeMethod(link.method) && options.reqBody === undefined;
+    }
+
+    private static IsSafeMethod(method: string): boolean {
+        return method === undefined || method === null || method.toUpperCase() === "GET" || method.toUpperCase() === "HEAD";
+    }
+
+    private static parseResult(response: Response, data: string, request: HalRequest, settings: HalEndpointClientSettings): HalData {
         var result: HalData;
         var contentHeader = response.headers.get('content-type');
         if (contentHeader) {
-            if (
-                ( //The content type is json+halcyon
-                    contentHeader.length >= HalEndpointClient.halcyonJsonMimeType.length
-                    && contentHeader.substring(0, HalEndpointClient.halcyonJsonMimeType.length) === HalEndpointClient.halcyonJsonMimeType
-                )
-                ||
-                ( //The content type is json, only accepted in the event of an error
-                    contentHeader.length >= HalEndpointClient.jsonMimeType.length
-                    && contentHeader.substring(0, HalEndpointClient.jsonMimeType.length) === HalEndpointClient.jsonMimeType
-                    && !response.ok)
-            ) {
-                result = data === "" ? null : JSON.parse(data, jsonParseReviver);
+            var mediaType = getMediaType(contentHeader);
+            var parser: MediaTypeParser | undefined = undefined;
+            if (response.ok) {
+                //Only parse the media types the client asked for
+                if (isAcceptedMediaType(mediaType, settings.accept || HalEndpointClient.defaultAccept)) {
+                    parser = HalEndpointClient.GetMediaTypeParser(mediaType, settings);
+                }
             }
             else {
-                throw new Error("Unsupported response type " + contentHeader + ".");
+                //Errors can be parsed from any known type, json and problem json are accepted in the event of an error
+                parser = HalEndpointClient.GetMediaTypeParser(mediaType, settings);
+                if (parser === undefined && (mediaType === HalEndpointClient.jsonMimeType || mediaType === HalEndpointClient.problemJsonMimeType)) {
+                    parser = { Parse: (text, context) => JSON.parse(text, context.reviver) };
+                }
+            }
+
+            if (parser === undefined) {
+                throw new UnsupportedContentTypeError(contentHeader, HalEndpointClient.GetErrorInfo(response, data, request));
+            }
+
+            try {
+                result = data === "" ? null : parser.Parse(data, {
+                    url: response.url || request.link.href,
+                    reviver: createJsonReviver(settings.json)
+                });
+            }
+            catch (err) {
+                throw new InvalidJsonError(err, HalEndpointClient.GetErrorInfo(response, data, request));
             }
         }
         else {
@@ -247,22 +2048,95 @@ export class HalEndpointClient {
         return result;
     }
 
+    /**
+     * Create the client for a cached response that is still fresh. This is not sent, but it goes through the
+     * data middleware and is reported to the observers like a response from the server.
+     */
+    private static LoadCached(cached: ResponseCacheEntry, request: HalRequest, fetcher: Fetcher, settings: HalEndpointClientSettings, observation: RequestObservation): Promise<HalEndpointClient> {
+        observation.start(request);
+        var headers: { [key: string]: string } = {};
+        if (cached.contentType !== undefined) {
+            headers["Content-Type"] = cached.contentType;
+        }
+        var exchange: HalExchange = {
+            request: request,
+            response: new Response(cached.body, { status: 200, headers: headers }),
+            responseSize: new TextEncoder().encode(cached.body).length
+        };
+        return HalEndpointClient.CreateClient(HalEndpointClient.ParseCached(cached, request.link.href, settings), exchange, fetcher, settings)
+            .then(client => {
+                observation.end(exchange.response, exchange.responseSize, true);
+                return client;
+            });
+    }
+
+    /**
+     * Parse the body of a cached response.
+     */
+    private static ParseCached(cached: ResponseCacheEntry, href: string, settings: HalEndpointClientSettings): HalData {
+        var parser = HalEndpointClient.GetMediaTypeParser(cached.contentType ? getMediaType(cached.contentType) : MEDIA_Halcyon, settings)
+            || HalEndpointClient.GetMediaTypeParser(MEDIA_Halcyon, settings);
+        return parser.Parse(cached.body, {
+            url: href,
+            reviver: createJsonReviver(settings.json)
+        });
+    }
+
+    private static GetMediaTypeParser(mediaType: string, settings: HalEndpointClientSettings): MediaTypeParser | undefined {
+        if (settings.mediaTypes !== undefined) {
+            for (var key in settings.mediaTypes) {
+                if (getMediaType(key) === mediaType) {
+                    return settings.mediaTypes[key];
+                }
+            }
+        }
+        return getMediaTypeParser(mediaType);
+    }
+
     private data: any; //The data from the server with the hal properties removed
     private fetcher: Fetcher;
+    private settings: HalEndpointClientSettings;
     private embeds;
     private links;
 
     /**
      * Constructor.
      * @param {HalData} data - The raw hal data object.
+     * @param fetcher - The fetcher to use to load links.
+     * @param settings - The settings for the client, these will be shared with any clients loaded from this one.
      */
-    constructor(data: HalData, fetcher: Fetcher) {
+    constructor(data: HalData, fetcher: Fetcher, settings?: HalEndpointClientSettings) {
         this.embeds = data._embedded;
         delete data._embedded;
         this.links = data._links;
         delete data._links;
         this.data = <any>data; //HalData is the actual data, trick compiler
         this.fetcher = fetcher;
+        this.settings = settings || {};
+    }
+
+    /**
+     * Create a client from stored hal data, such as the result of calling JSON.stringify on a client.
+     * This lets a client be kept in history state or session storage and used again without loading it.
+     * @param data - The stored hal data, either as json or an object. Objects are copied, so they can be reused.
+     * @param fetcher - The fetcher to use to load links.
+     * @param settings - The settings for the client, the data is revived with the json settings.
+     * @returns A HalEndpointClient for the data.
+     */
+    public static FromJSON(data: HalData | string, fetcher: Fetcher, settings?: HalEndpointClientSettings): HalEndpointClient {
+        settings = settings || {};
+        var halData: HalData;
+        if (typeof data === "string") {
+            halData = parseJson(data, settings.json);
+        }
+        else if (createJsonReviver(settings.json) !== undefined) {
+            //Objects from toJSON have the values as they are sent, so revive them the same way as a response
+            halData = parseJson(JSON.stringify(data), settings.json);
+        }
+        else {
+            halData = { ...data };
+        }
+        return new HalEndpointClient(halData, fetcher, settings);
     }
 
     /**
@@ -273,13 +2147,46 @@ export class HalEndpointClient {
         return <T>this.data;
     }
 
+    /**
+     * Get the hal data for this client including the links and embeds. This is called by JSON.stringify,
+     * use FromJSON to turn the result back into a client. The values are converted with the json settings
+     * the same way as request data, so revived dates, BigInts and enums are written the way the server sent them.
+     * @returns The hal data.
+     */
+    public toJSON(): HalData {
+        var data: HalData = { ...this.data };
+        if (this.links !== undefined) {
+            data._links = this.links;
+        }
+        if (this.embeds !== undefined) {
+            data._embedded = this.embeds;
+        }
+        return toJsonValue(data, this.settings.json);
+    }
+
+    /**
+     * Create a client with different data that keeps the links, embeds and settings of this client.
+     * This does not make any requests, it is used to show local changes before the server has them.
+     * @param data - The new data.
+     * @returns A new HalEndpointClient for the data.
+     */
+    public WithData<T>(data: T): HalEndpointClient {
+        var halData: HalData = { ...<any>data };
+        halData._links = this.links;
+        halData._embedded = this.embeds;
+        return new HalEndpointClient(halData, this.fetcher, this.settings);
+    }
+
     /**
      * Get an embed.
      * @param {string} name - The name of the embed.
      * @returns - The embed specified by name or undefined.
      */
-    public GetEmbed(name: string): Embed {
-        return new Embed(name, this.embeds[name], this.fetcher);
+    public GetEmbed<T = any>(name: string): Embed<T> | undefined {
+        if (!this.HasEmbed(name)) {
+            return undefined;
+        }
+        return new Embed<T>(name, this.embeds[name], this.fetcher, this.settings);
     }
 
     /**
@@ -300,7 +2207,7 @@ export class HalEndpointClient {
         //No generators, create array
         var embeds: Embed[] = [];
         for (var key in this.embeds) {
-            var embed = new Embed(key, this.embeds[key], this.fetcher);
+            var embed = new Embed(key, this.embeds[key], this.fetcher, this.settings);
             embeds.push(embed);
         }
         return embeds;
@@ -314,18 +2221,22 @@ export class HalEndpointClient {
      * on to keep making requests if needed. The ref must exist before you can call
      * this function. Use HasLink to see if it is possible.
      * @param {string} ref - The link reference to visit.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadLink(ref: string): Promise<HalEndpointClient> {
+    public LoadLink(ref: string, options?: RequestOptions): Promise<HalEndpointClient> {
         if (this.HasLink(ref)) {
             var link = this.GetLink(ref);
             if (link.requestdata) {
-                return this.LoadLinkWithData(ref, link.requestdata);
+                return this.LoadLinkWithData(ref, link.requestdata, options);
             }
-            return HalEndpointClient.Load(this.GetLink(ref), this.fetcher);
+            if (link.datamode === MODE_Template) {
+                return this.LoadLinkWithData(ref, {}, options); //Expand the template so the unset variables are removed
+            }
+            return this.QueueOffline(ref, undefined, undefined, options, () => HalEndpointClient.Load(this.GetLink(ref), this.fetcher, { ...options, rel: ref }, this.settings));
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -333,24 +2244,16 @@ export class HalEndpointClient {
      * Load a link that uses the data mode to send its query.
      * @param {string} ref The ref for the link
      * @param {type} data The object with the template values inside.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadLinkWithData<DataType>(ref: string, data: DataType): Promise<HalEndpointClient> {
+    public LoadLinkWithData<DataType>(ref: string, data: DataType, options?: RequestOptions): Promise<HalEndpointClient> {
         var link = this.GetLink(ref);
         if (link) {
-            switch(link.datamode){
-                case MODE_Query:
-                    return this.LoadLinkWithQuery(ref, data);
-                case MODE_Body:
-                    return this.LoadLinkWithBody(ref, data);
-                case MODE_Form:
-                    return this.LoadLinkWithForm(ref, data);
-                default:
-                    throw new Error("Cannot use data mode " + link.datamode + " with rel " + ref);
-            }
+            return this.LoadWithMode(ref, link.datamode, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -358,14 +2261,15 @@ export class HalEndpointClient {
      * Load a link that uses a template query. The template args are provided by the query argument.
      * @param {string} ref The ref for the link
      * @param {type} query The object with the template values inside.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadLinkWithQuery<QueryType>(ref: string, query: QueryType): Promise<HalEndpointClient> {
+    public LoadLinkWithQuery<QueryType>(ref: string, query: QueryType, options?: RequestOptions): Promise<HalEndpointClient> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.Load(this.GetQueryLink(this.GetLink(ref), query), this.fetcher);
+            return this.LoadWithMode(ref, MODE_Query, query, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -376,17 +2280,15 @@ export class HalEndpointClient {
      * this function. Use HasLink to see if it is possible.
      * @param {string} ref - The link reference to visit.
      * @param {type} data - The data to send as the body of the request
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadLinkWithBody<BodyType>(ref: string, data: BodyType): Promise<HalEndpointClient> {
+    public LoadLinkWithBody<BodyType>(ref: string, data: BodyType, options?: RequestOptions): Promise<HalEndpointClient> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.Load(this.GetLink(ref), this.fetcher, {
-                reqBody: JSON.stringify(data),
-                contentType: HalEndpointClient.jsonMimeType
-            });
+            return this.LoadWithMode(ref, MODE_Body, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -394,16 +2296,15 @@ export class HalEndpointClient {
      * Load a new link with files to upload.
      * @param ref - The link reference to visit.
      * @param file - The file to upload, either a single file or an array of multiple files.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadLinkWithForm<FormType>(ref: string, data: FormType): Promise<HalEndpointClient> {
+    public LoadLinkWithForm<FormType>(ref: string, data: FormType, options?: RequestOptions): Promise<HalEndpointClient> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.Load(this.GetLink(ref), this.fetcher, {
-                reqBody: this.jsonToFormData(data)
-            });
+            return this.LoadWithMode(ref, MODE_Form, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -416,18 +2317,22 @@ export class HalEndpointClient {
      * on to keep making requests if needed. The ref must exist before you can call
      * this function. Use HasLink to see if it is possible.
      * @param {string} ref - The link reference to visit.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadRawLink(ref: string): Promise<Response> {
+    public LoadRawLink(ref: string, options?: RequestOptions): Promise<Response> {
         if (this.HasLink(ref)) {
             var link = this.GetLink(ref);
             if (link.requestdata) {
-                return this.LoadRawLinkWithData(ref, link.requestdata);
+                return this.LoadRawLinkWithData(ref, link.requestdata, options);
             }
-            return HalEndpointClient.LoadRaw(this.GetLink(ref), this.fetcher);
+            if (link.datamode === MODE_Template) {
+                return this.LoadRawLinkWithData(ref, {}, options);
+            }
+            return HalEndpointClient.LoadRaw(this.GetLink(ref), this.fetcher, { ...options, rel: ref }, this.settings);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -435,24 +2340,16 @@ export class HalEndpointClient {
      * Load a link that uses the data mode to send its query.
      * @param {string} ref The ref for the link
      * @param {type} data The object with the template values inside.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadRawLinkWithData<DataType>(ref: string, data: DataType): Promise<Response> {
+    public LoadRawLinkWithData<DataType>(ref: string, data: DataType, options?: RequestOptions): Promise<Response> {
         var link = this.GetLink(ref);
         if (link) {
-            switch(link.datamode){
-                case MODE_Query:
-                    return this.LoadRawLinkWithQuery(ref, data);
-                case MODE_Body:
-                    return this.LoadRawLinkWithBody(ref, data);
-                case MODE_Form:
-                    return this.LoadRawLinkWithForm(ref, data);
-                default:
-                    throw new Error("Cannot use data mode " + link.datamode + " with rel " + ref);
-            }
+            return this.LoadRawWithMode(ref, link.datamode, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -460,14 +2357,15 @@ export class HalEndpointClient {
      * Load a link that uses a template query. The template args are provided by the query argument.
      * @param {string} ref The ref for the link
      * @param {type} query The object with the template values inside.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadRawLinkWithQuery<QueryType>(ref: string, query: QueryType): Promise<Response> {
+    public LoadRawLinkWithQuery<QueryType>(ref: string, query: QueryType, options?: RequestOptions): Promise<Response> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.LoadRaw(this.GetQueryLink(this.GetLink(ref), query), this.fetcher);
+            return this.LoadRawWithMode(ref, MODE_Query, query, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -478,17 +2376,15 @@ export class HalEndpointClient {
      * this function. Use HasLink to see if it is possible.
      * @param {string} ref - The link reference to visit.
      * @param {type} data - The data to send as the body of the request
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadRawLinkWithBody<BodyType>(ref: string, data: BodyType): Promise<Response> {
+    public LoadRawLinkWithBody<BodyType>(ref: string, data: BodyType, options?: RequestOptions): Promise<Response> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.LoadRaw(this.GetLink(ref), this.fetcher, {
-                reqBody: JSON.stringify(data),
-                contentType: HalEndpointClient.jsonMimeType
-            });
+            return this.LoadRawWithMode(ref, MODE_Body, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
@@ -496,64 +2392,281 @@ export class HalEndpointClient {
      * Load a new link with files to upload.
      * @param ref - The link reference to visit.
      * @param file - The file to upload, either a single file or an array of multiple files.
+     * @param options - Additional request options, such as an abort signal or timeout.
      * @returns
      */
-    public LoadRawLinkWithForm<FormType>(ref: string, data: FormType): Promise<Response> {
+    public LoadRawLinkWithForm<FormType>(ref: string, data: FormType, options?: RequestOptions): Promise<Response> {
         if (this.HasLink(ref)) {
-            return HalEndpointClient.LoadRaw(this.GetLink(ref), this.fetcher, {
-                reqBody: this.jsonToFormData(data)
-            });
+            return this.LoadRawWithMode(ref, MODE_Form, data, options);
         }
         else {
-            throw new Error('Cannot find ref "' + ref + '".');
+            throw new MissingRelError(ref);
         }
     }
 
-    //Thanks Raj Pawan Gumdal at
-    //https://stackoverflow.com/questions/22783108/convert-js-object-to-form-data
-    //Removed the test json bit
-    private jsonToFormData<T>(inJSON: T, inFormData?: FormData, parentKey?: string) {
-        // http://stackoverflow.com/a/22783314/260665
-        // Raj: Converts any nested JSON to formData.
-        var form_data: FormData = inFormData || new FormData();
-        for (var key in inJSON) {
-            // 1. If it is a recursion, then key has to be constructed like "parent.child" where parent JSON contains a child JSON
-            // 2. Perform append data only if the value for key is not a JSON, recurse otherwise!
-            var constructedKey: string = key;
-            if (parentKey) {
-                constructedKey = parentKey + "." + key;
-            }
+    /**
+     * Upload data to a link as multipart form data, reporting the progress with the onProgress option.
+     * This works the same as LoadLinkWithForm otherwise, so FileInfo values are sent as files. The form
+     * is read into a blob before it is sent to get its size, so it is held in memory during the upload.
+     * @param ref - The link reference to visit.
+     * @param data - The data to send, this is converted to form data.
+     * @param options - The upload options.
+     * @returns
+     */
+    public UploadLinkWithForm<FormType>(ref: string, data: FormType, options?: UploadOptions): Promise<HalEndpointClient> {
+        if (this.HasLink(ref)) {
+            var handler = this.GetDataModeHandler(ref, this.GetLink(ref), MODE_Form);
+            //Convert the form to a blob first, this gets the size and the content type with the boundary
+            return this.QueueOffline(ref, MODE_Form, data, options, () => this.ValidateRequest(ref, data, options, () => new Response(handler.CreateRequest(this.GetLink(ref), data, this.settings).body).blob()
+                .then(body => this.Upload(ref, body, body.type, MODE_Form, options))));
+        }
+        else {
+            throw new MissingRelError(ref);
+        }
+    }
+
+    /**
+     * Upload a blob to a link as the request body, reporting the progress with the onProgress option.
+     * The content type is the type of the blob or application/octet-stream if it does not have one.
+     * @param ref - The link reference to visit.
+     * @param blob - The blob to send.
+     * @param options - The upload options.
+     * @returns
+     */
+    public UploadLinkWithBlob(ref: string, blob: Blob, options?: UploadOptions): Promise<HalEndpointClient> {
+        if (this.HasLink(ref)) {
+            return this.QueueOffline(ref, undefined, blob, options, () => this.Upload(ref, blob, blob.type || "application/octet-stream", undefined, options));
+        }
+        else {
+            throw new MissingRelError(ref);
+        }
+    }
+
+    private Upload(ref: string, body: Blob, contentType: string, datamode: string | undefined, options?: UploadOptions): Promise<HalEndpointClient> {
+        options = options || {};
+        var total = body.size;
+        var onProgress = options.onProgress || ((progress: UploadProgress) => { });
+        onProgress({ loaded: 0, total: total });
+
+        var reqBody: Blob | ReadableStream<Uint8Array> = body;
+        if (options.stream && supportsRequestStreams()) {
+            reqBody = createProgressBody(body, onProgress);
+        }
+
+        return HalEndpointClient.Load(this.GetLink(ref), this.fetcher, {
+            ...options,
+            rel: ref,
+            datamode: datamode,
+            reqBody: reqBody,
+            contentType: contentType
+        }, this.settings)
+            .then(client => {
+                onProgress({ loaded: total, total: total });
+                return client;
+            });
+    }
+
+    /**
+     * Download a link as a blob. The signal and timeout in the options cover the whole download.
+     * @param ref - The link reference to visit.
+     * @param options - The download options.
+     * @returns The downloaded file.
+     */
+    public DownloadLink(ref: string, options?: DownloadOptions): Promise<DownloadResult<Blob>> {
+        return this.DownloadBlob(ref, options, o => this.LoadRawLink(ref, o));
+    }
+
+    /**
+     * Download a link that needs data as a blob. The data is sent according to the link's datamode.
+     * @param ref - The link reference to visit.
+     * @param data - The data to send to the link.
+     * @param options - The download options.
+     * @returns The downloaded file.
+     */
+    public DownloadLinkWithData<DataType>(ref: string, data: DataType, options?: DownloadOptions): Promise<DownloadResult<Blob>> {
+        return this.DownloadBlob(ref, options, o => this.LoadRawLinkWithData(ref, data, o));
+    }
+
+    /**
+     * Download a link as a stream. The signal and timeout in the options keep applying until the
+     * stream has been read, so cancel the stream if you don't read all of it.
+     * @param ref - The link reference to visit.
+     * @param options - The download options.
+     * @returns The downloaded file.
+     */
+    public StreamLink(ref: string, options?: DownloadOptions): Promise<DownloadResult<ReadableStream<Uint8Array>>> {
+        return this.Download(ref, options, o => this.LoadRawLink(ref, o));
+    }
+
+    /**
+     * Download a link that needs data as a stream. The data is sent according to the link's datamode.
+     * @param ref - The link reference to visit.
+     * @param data - The data to send to the link.
+     * @param options - The download options.
+     * @returns The downloaded file.
+     */
+    public StreamLinkWithData<DataType>(ref: string, data: DataType, options?: DownloadOptions): Promise<DownloadResult<ReadableStream<Uint8Array>>> {
+        return this.Download(ref, options, o => this.LoadRawLinkWithData(ref, data, o));
+    }
+
+    private DownloadBlob(ref: string, options: DownloadOptions | undefined, load: (options: RequestOptions) => Promise<Response>): Promise<DownloadResult<Blob>> {
+        return this.Download(ref, options, load)
+            .then(download => readAllChunks(download.body)
+                .then(chunks => {
+                    var blob = new Blob(<BlobPart[]>chunks, { type: download.contentType || "" });
+                    return {
+                        ...download,
+                        size: blob.size,
+                        body: blob
+                    };
+                }));
+    }
+
+    private Download(ref: string, options: DownloadOptions | undefined, load: (options: RequestOptions) => Promise<Response>): Promise<DownloadResult<ReadableStream<Uint8Array>>> {
+        if (!this.HasLink(ref)) {
+            throw new MissingRelError(ref);
+        }
+        options = options || {};
+        var link = this.GetLink(ref);
+        var onProgress = options.onProgress || ((progress: DownloadProgress) => { });
+
+        //This canceller covers reading the body, the request is sent with its signal instead of the signal and timeout from the options
+        var canceller = new RequestCanceller(link.href, ref, options);
+        return load({ ...options, signal: canceller.signal, timeout: undefined })
+            .then(response => {
+                if (!response.ok) {
+                    return response.text().then(data => {
+                        throw HalEndpointClient.GetResponseError(response, data, { link: link, rel: ref, headers: {}, body: undefined }, this.settings);
+                    });
+                }
+                var contentLength = response.headers.get("Content-Length");
+                var size = contentLength !== null && contentLength !== "" && !isNaN(Number(contentLength)) ? Number(contentLength) : undefined;
+                return {
+                    fileName: getContentDispositionFileName(response.headers.get("Content-Disposition")),
+                    contentType: response.headers.get("Content-Type") || undefined,
+                    size: size,
+                    body: createDownloadBody(response, size, onProgress, canceller),
+                    response: response
+                };
+            })
+            .catch(err => {
+                canceller.finish();
+                throw canceller.getError(err);
+            });
+    }
+
+    /**
+     * Run the validator from the options, if there is one, before sending the request.
+     */
+    private ValidateRequest<T>(ref: string, data: any, options: RequestOptions | undefined, send: () => Promise<T>): Promise<T> {
+        if (options !== undefined && options.validator !== undefined) {
+            var validator = options.validator;
+            return Promise.resolve()
+                .then(() => validator.Validate(this, ref, toJsonValue(data, this.settings.json)))
+                .then(send);
+        }
+        return send();
+    }
 
-            var value = inJSON[key];
-            if (value && value.constructor === {}.constructor) {
-                // This is a JSON, we now need to recurse!
-                this.jsonToFormData(value, form_data, constructedKey);
+    /**
+     * Send a link call, if it fails because there is no connection and the settings have an offline handler
+     * the call is stored to send later and the promise rejects with a RequestQueuedError instead.
+     * The headers from upload options are stored with the call.
+     */
+    private QueueOffline(ref: string, datamode: string | undefined, data: any, options: UploadOptions | undefined, send: () => Promise<HalEndpointClient>): Promise<HalEndpointClient> {
+        var offline = this.settings.offline;
+        var link = this.GetLink(ref);
+        if (offline === undefined || HalEndpointClient.IsSafeMethod(link.method) || (options !== undefined && options.offline === false)) {
+            return send();
+        }
+        return send().catch(err => {
+            if (!(err instanceof NetworkError)) {
+                throw err;
             }
-            else if (value && value.constructor === Blob && (<any>value).fileName) {
-                //With ie you have to use blobs for files, this allows us to detect that a fileName property was added to a blob and makes us use that as the third argument to append
-                form_data.append(constructedKey, <any>value, (<any>value).fileName);
+            var request: OfflineRequest = {
+                rel: ref,
+                href: link.href,
+                method: link.method,
+                datamode: datamode,
+                data: data,
+                queued: Date.now()
+            };
+            if (options !== undefined && options.headers !== undefined) {
+                request.headers = { ...options.headers };
             }
-            else if (Array.isArray(value)) {
-                for (var i = 0; i < value.length; ++i) {
-                    this.jsonToFormData(value[i], form_data, constructedKey + '[' + i + ']');
-                }
+            return offline.Enqueue(request)
+                .then(request => {
+                    throw new RequestQueuedError(request, err);
+                });
+        });
+    }
+
+    /**
+     * Load a link by sending the data with the handler for a datamode. The calls for a specific mode, like
+     * LoadLinkWithBody, use this too so handlers registered for the built in modes apply to them.
+     */
+    private LoadWithMode(ref: string, datamode: string | undefined, data: any, options: RequestOptions | undefined): Promise<HalEndpointClient> {
+        var link = this.GetLink(ref);
+        var handler = this.GetDataModeHandler(ref, link, datamode);
+        return this.QueueOffline(ref, datamode, data, options, () => this.ValidateRequest(ref, data, options, () => {
+            var request = handler.CreateRequest(link, data, this.settings);
+            return HalEndpointClient.Load(request.link, this.fetcher, {
+                ...options,
+                rel: ref,
+                datamode: datamode,
+                reqBody: request.body,
+                contentType: request.contentType
+            }, this.settings);
+        }));
+    }
+
+    /**
+     * Load a link as a raw response by sending the data with the handler for a datamode.
+     */
+    private LoadRawWithMode(ref: string, datamode: string | undefined, data: any, options: RequestOptions | undefined): Promise<Response> {
+        var link = this.GetLink(ref);
+        var handler = this.GetDataModeHandler(ref, link, datamode);
+        return this.ValidateRequest(ref, data, options, () => {
+            var request = handler.CreateRequest(link, data, this.settings);
+            return HalEndpointClient.LoadRaw(request.link, this.fetcher, {
+                ...options,
+                rel: ref,
+                datamode: datamode,
+                reqBody: request.body,
+                contentType: request.contentType
+            }, this.settings);
+        });
+    }
+
+    /**
+     * Get the handler for a datamode, the handlers in the settings are checked first.
+     * @param datamode - The datamode, defaults to the datamode of the link.
+     */
+    private GetDataModeHandler(ref: string, link: HalLink, datamode: string | undefined = link.datamode): DataModeHandler {
+        var handler: DataModeHandler | undefined = undefined;
+        if (datamode !== undefined && datamode !== null) {
+            if (this.settings !== undefined && this.settings.dataModes !== undefined && Object.prototype.hasOwnProperty.call(this.settings.dataModes, datamode)) {
+                handler = this.settings.dataModes[datamode];
             }
             else {
-                form_data.append(constructedKey, <any>value);
+                handler = getDataMode(datamode);
             }
         }
-        return form_data;
+        if (handler === undefined) {
+            throw new UnsupportedDataModeError(datamode, { href: link.href, rel: ref });
+        }
+        return handler;
     }
 
     /**
      * Load the documentation for a link.
      */
-    public LoadLinkDoc(ref: string, data?: any): Promise<HalEndpointClient> {
+    public LoadLinkDoc(ref: string, data?: any, options?: RequestOptions): Promise<HalEndpointClient> {
         if (data === undefined) {
-            return this.LoadLink(ref + ".Docs");
+            return this.LoadLink(ref + ".Docs", options);
         }
         else {
-            return this.LoadLinkWithData(ref + ".Docs", data);
+            return this.LoadLinkWithData(ref + ".Docs", data, options);
         }
     }
 
@@ -569,13 +2682,128 @@ export class HalEndpointClient {
         return this.HasLink(ref + ".Docs");
     }
 
+    /**
+     * Listen for links that change resources. The listener is called when any link that is not a
+     * GET succeeds, on this client or any client that shares its settings, such as the clients loaded from it.
+     * @param listener - Called with the href and method of the link that succeeded.
+     * @returns A function that removes the listener.
+     */
+    public OnResourceChanged(listener: (href: string, method: string) => void): () => void {
+        var listeners = changeListeners.get(this.settings);
+        if (listeners === undefined) {
+            listeners = [];
+            changeListeners.set(this.settings, listeners);
+        }
+        listeners.push(listener);
+        return () => {
+            var index = listeners.indexOf(listener);
+            if (index !== -1) {
+                listeners.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Get the documentation for a link. The docs are cached by the href of the docs link and shared
+     * by all the clients that have the same settings, so they are only loaded once.
+     * @param ref - The link to get the docs for, this must have docs, check with HasLinkDoc.
+     * @param options - Additional request options. The signal and timeout only stop this call waiting,
+     * the docs keep loading for the other callers.
+     * @returns The documentation for the link.
+     */
+    public GetLinkDoc(ref: string, options?: RequestOptions): Promise<HalEndpointDoc> {
+        if (!this.HasLinkDoc(ref)) {
+            throw new MissingRelError(ref + ".Docs");
+        }
+        var cache = docCaches.get(this.settings);
+        if (cache === undefined) {
+            cache = {};
+            docCaches.set(this.settings, cache);
+        }
+
+        var docLink = this.GetLink(ref + ".Docs");
+        var key = docLink.method + " " + docLink.href;
+        var doc = cache[key];
+        if (doc === undefined) {
+            //The load is shared, so one caller cancelling can't cancel it for the rest
+            doc = this.LoadLinkDoc(ref, undefined, { ...options, signal: undefined, timeout: undefined })
+                .then(r => r.GetData<HalEndpointDoc>());
+            //Don't keep failed loads around, they can be retried
+            doc.catch(() => {
+                if (cache[key] === doc) {
+                    delete cache[key];
+                }
+            });
+            cache[key] = doc;
+        }
+
+        var canceller = new RequestCanceller(docLink.href, ref + ".Docs", options || {});
+        var signal = canceller.signal;
+        if (signal === undefined) {
+            return doc;
+        }
+        return new Promise<HalEndpointDoc>((resolve, reject) => {
+            var onAbort = () => reject(canceller.getError(new Error("Request aborted.")));
+            if (signal.aborted) {
+                onAbort();
+            }
+            else {
+                signal.addEventListener("abort", onAbort);
+            }
+            doc.then(resolve, reject);
+        })
+            .finally(() => canceller.finish());
+    }
+
+    /**
+     * Describe a single link.
+     * @param ref - The name of the link.
+     * @returns The description or undefined if the link does not exist.
+     */
+    public DescribeLink(ref: string): HalLinkDescription | undefined {
+        if (!this.HasLink(ref)) {
+            return undefined;
+        }
+        var link: HalLink = this.links[ref];
+        var description: HalLinkDescription = {
+            href: link.href,
+            method: link.method,
+            rel: ref,
+            hasDocs: this.HasLinkDoc(ref)
+        };
+        if (link.datamode !== undefined && link.datamode !== null) {
+            description.datamode = link.datamode;
+        }
+        if (link.requestdata !== undefined) {
+            description.requestdata = link.requestdata;
+        }
+        return description;
+    }
+
+    /**
+     * Describe all the links on this client. Docs links are not included, they are reported
+     * with hasDocs on the link they document.
+     * @returns The descriptions of the links.
+     */
+    public DescribeLinks(): HalLinkDescription[] {
+        var descriptions: HalLinkDescription[] = [];
+        for (var key in this.links) {
+            var isDocs = key.length > 5 && key.substring(key.length - 5) === ".Docs" && this.HasLink(key.substring(0, key.length - 5));
+            if (!isDocs) {
+                descriptions.push(this.DescribeLink(key));
+            }
+        }
+        return descriptions;
+    }
+
     /**
      * Get a single named link.
      * @param {string} ref - The name of the link to recover.
      * @returns The link or undefined if the link does not exist.
      */
     public GetLink(ref: string): HalLink {
-        return this.links[ref];
+        //Plain json and empty responses do not have links
+        return this.links !== undefined && this.links !== null ? this.links[ref] : undefined;
     }
 
     /**
@@ -584,7 +2812,7 @@ export class HalEndpointClient {
      * @returns - True if the link exists, false otherwise
      */
     public HasLink(ref: string): boolean {
-        return this.links !== undefined && this.links[ref] !== undefined;
+        return this.GetLink(ref) !== undefined;
     }
 
     /**
@@ -604,24 +2832,4 @@ export class HalEndpointClient {
         }
         return linkInfos;
     }
-
-    /**
-     * Helper function to get the expanded version of a query link.
-     * @param {type} link
-     * @param {type} query
-     * @returns
-     */
-    private GetQueryLink(link: HalLink, query: any): HalLink {
-        if (query !== undefined && query !== null) {
-            var uri = new Uri(link.href);
-            uri.setQueryFromObject(query);
-            return {
-                href: uri.build(),
-                method: link.method
-            };
-        }
-        else {
-            return link; //No query, just return original link.
-        }
-    }
 }
\ No newline at end of file
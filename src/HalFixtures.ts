@@ -0,0 +1,261 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+
+/**
+ * A single recorded response.
+ */
+export interface HalFixture {
+    method: string;
+    href: string;
+    status: number;
+    contentType?: string;
+
+    /**
+     * Any other headers from the response, such as ETag.
+     */
+    headers?: { [key: string]: string };
+
+    /**
+     * The parsed body for json responses.
+     */
+    body?: any;
+
+    /**
+     * The body for text responses that are not json.
+     */
+    text?: string;
+
+    /**
+     * The body for binary responses, encoded as base64.
+     */
+    base64?: string;
+}
+
+/**
+ * A set of recorded responses. This is the same format the halcyon-codegen tool reads with --fixtures.
+ */
+export interface HalFixtureFile {
+    responses: HalFixture[];
+}
+
+//The headers worth keeping in a fixture, anything else is dropped to keep them stable
+const RecordedHeaders = ["etag", "last-modified", "location", "retry-after", "content-disposition"];
+
+/**
+ * Determine if a content type is text that can be stored as is, anything else is stored as base64.
+ */
+function isTextContentType(contentType: string | null): boolean {
+    if (!contentType) {
+        return true; //Unknown, the halcyon servers always send text
+    }
+    var mediaType = contentType.split(";")[0].trim().toLowerCase();
+    //Json types include the halcyon type, application/json+halcyon
+    return mediaType.indexOf("text/") === 0 || /json|xml|javascript|x-www-form-urlencoded/.test(mediaType);
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+    var bytes = new Uint8Array(buffer);
+    var binary = "";
+    //Convert in chunks, passing too many arguments to fromCharCode overflows the stack
+    for (var i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, <any>bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+    var binary = atob(base64);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; ++i) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+/**
+ * A fetcher that passes requests on to another fetcher and records the responses. The responses are
+ * returned as soon as they arrive and their bodies are recorded in the background, so call Flush before
+ * GetFixtures or Serialize to make sure the recording is complete.
+ */
+export class RecordingFetcher extends Fetcher {
+    private fixtures: HalFixture[] = [];
+    private pending: Promise<void>[] = [];
+
+    /**
+     * Constructor.
+     * @param next - The fetcher to send the requests to.
+     */
+    constructor(private next: Fetcher) {
+        super();
+    }
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        var href = typeof url === "string" ? url : url.url;
+        var method = ((init && init.method) || "GET").toUpperCase();
+        return this.next.fetch(url, init)
+            .then(response => {
+                var fixture: HalFixture = {
+                    method: method,
+                    href: href,
+                    status: response.status
+                };
+                var contentType = response.headers.get("content-type");
+                if (contentType) {
+                    fixture.contentType = contentType;
+                }
+                var headers: { [key: string]: string } = {};
+                var hasHeaders = false;
+                response.headers.forEach((value, key) => {
+                    if (RecordedHeaders.indexOf(key.toLowerCase()) !== -1) {
+                        headers[key] = value;
+                        hasHeaders = true;
+                    }
+                });
+                if (hasHeaders) {
+                    fixture.headers = headers;
+                }
+                this.fixtures.push(fixture);
+
+                if (response.body !== null) {
+                    //Record from a clone so the caller can still read the response
+                    var recording = this.RecordBody(fixture, response.clone(), contentType);
+                    this.pending.push(recording);
+                    recording.then(() => this.pending.splice(this.pending.indexOf(recording), 1));
+                }
+                return response;
+            });
+    }
+
+    /**
+     * Wait for the bodies of the responses that are still being recorded.
+     */
+    public Flush(): Promise<void> {
+        return Promise.all(this.pending).then(() => {
+            //More requests may have finished while waiting
+            if (this.pending.length > 0) {
+                return this.Flush();
+            }
+        });
+    }
+
+    /**
+     * Get the responses recorded so far.
+     */
+    public GetFixtures(): HalFixtureFile {
+        return {
+            responses: this.fixtures.slice()
+        };
+    }
+
+    /**
+     * Get the responses recorded so far as json.
+     */
+    public Serialize(): string {
+        return JSON.stringify(this.GetFixtures(), null, 2);
+    }
+
+    /**
+     * Read a copy of the body into the fixture. Json is parsed, other text is kept as is and
+     * binary bodies are encoded as base64. A body that can't be read is left out.
+     */
+    private RecordBody(fixture: HalFixture, response: Response, contentType: string | null): Promise<void> {
+        if (!isTextContentType(contentType)) {
+            return response.arrayBuffer()
+                .then(buffer => {
+                    if (buffer.byteLength > 0) {
+                        fixture.base64 = toBase64(buffer);
+                    }
+                }, () => { });
+        }
+        return response.text()
+            .then(text => {
+                if (text !== "") {
+                    if (contentType && contentType.indexOf("json") !== -1) {
+                        try {
+                            fixture.body = JSON.parse(text);
+                        }
+                        catch (err) {
+                            fixture.text = text;
+                        }
+                    }
+                    else {
+                        fixture.text = text;
+                    }
+                }
+            }, () => { });
+    }
+}
+
+/**
+ * A fetcher that replays recorded responses. If the same method and href was recorded more than once
+ * the responses are returned in order, with the last one repeating. Requests that were not recorded
+ * return a 404 unless throwOnMissing is set.
+ */
+export class ReplayFetcher extends Fetcher {
+    private fixtures: { [key: string]: HalFixture[] } = {};
+    private served: { [key: string]: number } = {};
+
+    /**
+     * Constructor.
+     * @param fixtures - The recorded responses, either as an object or json.
+     * @param throwOnMissing - True to reject requests that were not recorded instead of returning a 404.
+     */
+    constructor(fixtures: HalFixtureFile | string, private throwOnMissing?: boolean) {
+        super();
+        var file: HalFixtureFile = typeof fixtures === "string" ? JSON.parse(fixtures) : fixtures;
+        var responses = file.responses || [];
+        for (var i = 0; i < responses.length; ++i) {
+            var key = ReplayFetcher.GetKey(responses[i].method, responses[i].href);
+            if (this.fixtures[key] === undefined) {
+                this.fixtures[key] = [];
+            }
+            this.fixtures[key].push(responses[i]);
+        }
+    }
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        if (init && init.signal && init.signal.aborted) {
+            return Promise.reject(new DOMException("The request was aborted.", "AbortError"));
+        }
+
+        var href = typeof url === "string" ? url : url.url;
+        var method = (init && init.method) || "GET";
+        var key = ReplayFetcher.GetKey(method, href);
+        var recorded = this.fixtures[key];
+        if (recorded === undefined) {
+            if (this.throwOnMissing) {
+                return Promise.reject(new Error("No fixture recorded for " + key));
+            }
+            return Promise.resolve(new Response(JSON.stringify({ message: "No fixture recorded for " + key }), {
+                status: 404,
+                headers: { "Content-Type": "application/json" }
+            }));
+        }
+
+        var index = this.served[key] || 0;
+        this.served[key] = index + 1;
+        var fixture = recorded[Math.min(index, recorded.length - 1)];
+
+        var headers: { [key: string]: string } = { ...fixture.headers };
+        if (fixture.contentType !== undefined) {
+            headers["Content-Type"] = fixture.contentType;
+        }
+        var body: string | ArrayBuffer = null;
+        if (fixture.body !== undefined) {
+            body = JSON.stringify(fixture.body);
+        }
+        else if (fixture.text !== undefined) {
+            body = fixture.text;
+        }
+        else if (fixture.base64 !== undefined) {
+            body = fromBase64(fixture.base64);
+        }
+        return Promise.resolve(new Response(body, {
+            status: fixture.status,
+            headers: headers
+        }));
+    }
+
+    private static GetKey(method: string, href: string): string {
+        return (method || "GET").toUpperCase() + " " + href;
+    }
+}
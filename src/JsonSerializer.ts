@@ -0,0 +1,210 @@
+﻿import { JsonSettings } from './EndpointClient';
+
+export type JsonReviver = (this: any, key: string, value: any, context?: { source?: string }) => any;
+export type JsonReplacer = (this: any, key: string, value: any) => any;
+
+//An ISO-8601 date and time, the seconds and offset are optional. Dates without times are left as strings.
+const IsoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * A json reviver that turns ISO-8601 date strings into Dates.
+ */
+export function reviveIsoDate(key: string, value: any): any {
+    if (typeof value === "string" && IsoDatePattern.test(value)) {
+        var date = new Date(value);
+        if (!isNaN(date.getTime())) {
+            return date;
+        }
+    }
+    return value;
+}
+
+/**
+ * A json reviver that turns integers that are too large to be a number into BigInts. This needs
+ * a browser that passes the source text to revivers, otherwise the numbers are left as they are.
+ */
+export function reviveBigInt(key: string, value: any, context?: { source?: string }): any {
+    if (typeof value === "number" && !Number.isSafeInteger(value)
+        && context !== undefined && context.source !== undefined && /^-?\d+$/.test(context.source)) {
+        return BigInt(context.source);
+    }
+    return value;
+}
+
+/**
+ * Create a reviver that turns enum names from the server into the values of typescript numeric enums.
+ * @param enums - The enums keyed by the name of the properties that use them.
+ */
+export function createEnumReviver(enums: { [property: string]: any }): JsonReviver {
+    var revive = (e: any, value: any): any => {
+        if (typeof value === "string" && Object.prototype.hasOwnProperty.call(e, value) && typeof e[value] === "number") {
+            return e[value];
+        }
+        return value;
+    };
+    return function (key, value) {
+        if (!Object.prototype.hasOwnProperty.call(enums, key)) {
+            return value;
+        }
+        var e = enums[key];
+        return Array.isArray(value) ? value.map(v => revive(e, v)) : revive(e, value);
+    };
+}
+
+/**
+ * Create a replacer that turns the values of typescript numeric enums back into their names.
+ * @param enums - The enums keyed by the name of the properties that use them.
+ */
+export function createEnumReplacer(enums: { [property: string]: any }): JsonReplacer {
+    var replace = (e: any, value: any): any => {
+        if (typeof value === "number" && typeof e[value] === "string") {
+            return e[value];
+        }
+        return value;
+    };
+    return function (key, value) {
+        if (!Object.prototype.hasOwnProperty.call(enums, key)) {
+            return value;
+        }
+        var e = enums[key];
+        return Array.isArray(value) ? value.map(v => replace(e, v)) : replace(e, value);
+    };
+}
+
+/**
+ * Create the reviver to parse responses with.
+ * @param json - The json settings for the client.
+ * @returns The reviver or undefined if there is nothing to revive.
+ */
+export function createJsonReviver(json: JsonSettings | undefined): JsonReviver | undefined {
+    if (json === undefined) {
+        return undefined;
+    }
+    var revivers: JsonReviver[] = [];
+    if (json.reviveDates) {
+        revivers.push(reviveIsoDate);
+    }
+    if (json.reviveBigInts) {
+        revivers.push(reviveBigInt);
+    }
+    if (json.enums !== undefined) {
+        revivers.push(createEnumReviver(json.enums));
+    }
+    if (json.reviver !== undefined) {
+        revivers.push(json.reviver);
+    }
+    if (revivers.length === 0) {
+        return undefined;
+    }
+    return function (key, value, context) {
+        for (var i = 0; i < revivers.length; ++i) {
+            value = revivers[i].call(this, key, value, context);
+        }
+        return value;
+    };
+}
+
+/**
+ * Create the replacer to convert the values in form data and url encoded data with. This runs the
+ * replacer from the settings and converts the enums.
+ * @param json - The json settings for the client.
+ * @returns The replacer or undefined if there is nothing to replace.
+ */
+export function createValueReplacer(json: JsonSettings | undefined): JsonReplacer | undefined {
+    if (json === undefined || (json.replacer === undefined && json.enums === undefined)) {
+        return undefined;
+    }
+    var replacer = json.replacer;
+    var enumReplacer = json.enums !== undefined ? createEnumReplacer(json.enums) : undefined;
+    return function (key, value) {
+        if (replacer !== undefined) {
+            value = replacer.call(this, key, value);
+        }
+        if (enumReplacer !== undefined) {
+            value = enumReplacer.call(this, key, value);
+        }
+        return value;
+    };
+}
+
+/**
+ * Create the replacer to serialize json request bodies with. BigInts are written as numbers
+ * if the browser supports JSON.rawJSON and as strings if it does not.
+ * @param json - The json settings for the client.
+ */
+export function createJsonReplacer(json: JsonSettings | undefined): JsonReplacer {
+    var replacer = createValueReplacer(json);
+    return function (key, value) {
+        if (replacer !== undefined) {
+            value = replacer.call(this, key, value);
+        }
+        if (typeof value === "bigint") {
+            var rawJSON = (<any>JSON).rawJSON;
+            return rawJSON !== undefined ? rawJSON(value.toString()) : value.toString();
+        }
+        return value;
+    };
+}
+
+/**
+ * Serialize a request body as json.
+ * @param data - The data to serialize.
+ * @param json - The json settings for the client.
+ */
+export function stringifyJson(data: any, json: JsonSettings | undefined): string {
+    return JSON.stringify(data, createJsonReplacer(json));
+}
+
+/**
+ * Convert data to the values it is sent as, the same way JSON.stringify would. Dates become strings,
+ * the replacer and enums from the settings are applied and properties that would not be sent are removed.
+ * Blobs are kept as they are, so FileInfo files can still be sent as form data.
+ * @param data - The data to convert.
+ * @param json - The json settings for the client.
+ */
+export function toJsonValue(data: any, json: JsonSettings | undefined): any {
+    var replacer = createJsonReplacer(json);
+    var convert = (holder: any, key: string, value: any): any => {
+        if (value !== null && value !== undefined && typeof value.toJSON === "function") {
+            value = value.toJSON(key);
+        }
+        value = replacer.call(holder, key, value);
+        if (value === null || typeof value !== "object" || value instanceof Blob || isRawJson(value)) {
+            return typeof value === "function" || typeof value === "symbol" ? undefined : value;
+        }
+        if (Array.isArray(value)) {
+            return value.map((v, i) => {
+                var item = convert(value, String(i), v);
+                return item !== undefined ? item : null;
+            });
+        }
+        var result: any = {};
+        for (var property in value) {
+            if (Object.prototype.hasOwnProperty.call(value, property)) {
+                var converted = convert(value, property, value[property]);
+                if (converted !== undefined) {
+                    result[property] = converted;
+                }
+            }
+        }
+        return result;
+    };
+    return convert({ "": data }, "", data);
+}
+
+/**
+ * Determine if a value was created by JSON.rawJSON.
+ */
+export function isRawJson(value: any): boolean {
+    var isRawJSON = (<any>JSON).isRawJSON;
+    return isRawJSON !== undefined && isRawJSON(value);
+}
+
+/**
+ * Parse a json response.
+ * @param text - The text to parse.
+ * @param json - The json settings for the client.
+ */
+export function parseJson(text: string, json: JsonSettings | undefined): any {
+    return JSON.parse(text, createJsonReviver(json));
+}
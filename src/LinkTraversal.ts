@@ -0,0 +1,183 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+import { HalClientError, HalEndpointClient, HalEndpointClientSettings, HalLink, RequestOptions } from './EndpointClient';
+
+interface TraversalStep {
+    /**
+     * The rel to load, undefined for embed steps.
+     */
+    rel?: string;
+
+    /**
+     * The data to send to the link.
+     */
+    data?: any;
+
+    /**
+     * The embed to select, undefined for link steps.
+     */
+    embed?: string;
+    index?: number;
+}
+
+/**
+ * This error is thrown when a step in a traversal fails. It says which step failed and what
+ * links were available on the client at that point.
+ */
+export class TraversalError extends HalClientError {
+    /**
+     * The index of the step that failed, starting at 0. This is -1 if loading the entry link failed.
+     */
+    public readonly step: number;
+
+    /**
+     * A description of the step that failed, such as "Users" or "values[0]", or "entry" for the entry link.
+     */
+    public readonly stepName: string;
+
+    /**
+     * The rels that were available on the client when the step failed.
+     */
+    public readonly availableLinks: string[];
+
+    /**
+     * The error that caused the step to fail, undefined if the rel or embed was not found.
+     */
+    public readonly cause: any;
+
+    constructor(message: string, step: number, stepName: string, rel: string | undefined, availableLinks: string[], cause?: any) {
+        super(message, {
+            rel: rel,
+            //Keep the status from HalClientErrors or HalErrors
+            status: cause && cause.status !== undefined ? cause.status : (cause && cause.getStatusCode ? cause.getStatusCode() : undefined),
+            href: cause ? cause.href : undefined
+        });
+        this.name = "TraversalError";
+        this.step = step;
+        this.stepName = stepName;
+        this.availableLinks = availableLinks;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Build a path of links and embeds to follow from a client or an entry link. Nothing is
+ * loaded until Run is called.
+ */
+export class LinkTraversal {
+    private steps: TraversalStep[] = [];
+
+    /**
+     * Start a traversal from a client.
+     * @param client - The client to start from.
+     */
+    public static From(client: HalEndpointClient): LinkTraversal {
+        return new LinkTraversal(() => Promise.resolve(client));
+    }
+
+    /**
+     * Start a traversal from an entry link.
+     * @param link - The link to load first.
+     * @param fetcher - The fetcher to load the link with.
+     * @param settings - The settings for the client.
+     */
+    public static FromLink(link: HalLink, fetcher: Fetcher, settings?: HalEndpointClientSettings): LinkTraversal {
+        return new LinkTraversal(options => HalEndpointClient.Load(link, fetcher, { ...options }, settings));
+    }
+
+    private constructor(private start: (options: RequestOptions) => Promise<HalEndpointClient>) {
+
+    }
+
+    /**
+     * Follow a link.
+     * @param rel - The rel of the link.
+     * @param data - The data to send to the link, if this is undefined the link's default request data is used.
+     */
+    public Follow(rel: string, data?: any): LinkTraversal {
+        this.steps.push({ rel: rel, data: data });
+        return this;
+    }
+
+    /**
+     * Select an item from an embed.
+     * @param name - The name of the embed.
+     * @param index - The index of the item in the embed.
+     */
+    public Embed(name: string, index: number): LinkTraversal {
+        this.steps.push({ embed: name, index: index });
+        return this;
+    }
+
+    /**
+     * Add steps from a path. Each part is a rel to follow, unless it ends with an index like
+     * "values[0]", then it selects that item from the embed.
+     * @param path - The parts of the path.
+     */
+    public Path(...path: string[]): LinkTraversal {
+        for (var i = 0; i < path.length; ++i) {
+            var match = /^(.*)\[(\d+)\]$/.exec(path[i]);
+            if (match !== null) {
+                this.Embed(match[1], parseInt(match[2], 10));
+            }
+            else {
+                this.Follow(path[i]);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Load each step in order.
+     * @param options - The request options to use for each load.
+     * @returns The client at the end of the path.
+     */
+    public Run(options?: RequestOptions): Promise<HalEndpointClient> {
+        var result = Promise.resolve()
+            .then(() => this.start(options))
+            .catch(err => {
+                throw new TraversalError('Step -1 "entry" failed. ' + (err && err.message ? err.message : String(err)), -1, "entry", undefined, [], err);
+            });
+        for (let i = 0; i < this.steps.length; ++i) {
+            result = result.then(client => this.RunStep(client, this.steps[i], i, options));
+        }
+        return result;
+    }
+
+    private RunStep(client: HalEndpointClient, step: TraversalStep, stepIndex: number, options: RequestOptions): Promise<HalEndpointClient> {
+        var stepName = LinkTraversal.GetStepName(step);
+        var availableLinks = client.GetAllLinks().map(l => l.rel);
+
+        if (step.embed !== undefined) {
+            var embed = client.GetEmbed(step.embed);
+            if (embed === undefined) {
+                throw new TraversalError('Step ' + stepIndex + ' "' + stepName + '" failed, cannot find embed "' + step.embed + '".', stepIndex, stepName, step.rel, availableLinks);
+            }
+            if (!Number.isInteger(step.index) || step.index < 0) {
+                throw new TraversalError('Step ' + stepIndex + ' "' + stepName + '" failed, ' + step.index + ' is not a valid index for embed "' + step.embed + '".', stepIndex, stepName, step.rel, availableLinks);
+            }
+            if (step.index >= embed.Count) {
+                throw new TraversalError('Step ' + stepIndex + ' "' + stepName + '" failed, embed "' + step.embed + '" only has ' + embed.Count + ' items.', stepIndex, stepName, step.rel, availableLinks);
+            }
+            return Promise.resolve(embed.GetClient(step.index));
+        }
+
+        if (!client.HasLink(step.rel)) {
+            throw new TraversalError('Step ' + stepIndex + ' "' + stepName + '" failed, cannot find ref "' + step.rel + '". Available links: ' + availableLinks.join(", ") + '.', stepIndex, stepName, step.rel, availableLinks);
+        }
+
+        //Load inside the promise so errors thrown by the load, like an unsupported datamode, are reported for the step too
+        var loaded = Promise.resolve().then(() => step.data !== undefined
+            ? client.LoadLinkWithData(step.rel, step.data, options)
+            : client.LoadLink(step.rel, options));
+        return loaded.catch(err => {
+            throw new TraversalError('Step ' + stepIndex + ' "' + stepName + '" failed. ' + (err && err.message ? err.message : String(err)), stepIndex, stepName, step.rel, availableLinks, err);
+        });
+    }
+
+    private static GetStepName(step: TraversalStep): string {
+        if (step.embed !== undefined) {
+            return step.embed + '[' + step.index + ']';
+        }
+        return step.rel;
+    }
+}
@@ -0,0 +1,352 @@
+﻿import { HalEndpointClient, HalLink, RequestOptions } from './EndpointClient';
+
+/**
+ * Options for a LiveResource.
+ */
+export interface LiveResourceOptions {
+    /**
+     * The rel of the link to reload the resource with. Defaults to "self".
+     */
+    selfRel?: string;
+
+    /**
+     * Reload the resource this often in milliseconds while there are subscribers. If this is
+     * undefined the resource is not reloaded on a timer.
+     */
+    interval?: number;
+
+    /**
+     * True to reload the resource when the window gets the focus or the page becomes visible
+     * again while there are subscribers. Defaults to false.
+     */
+    refreshOnFocus?: boolean;
+
+    /**
+     * The request options to use when the resource is reloaded.
+     */
+    requestOptions?: RequestOptions;
+}
+
+/**
+ * A function that is called when a live resource changes.
+ */
+export type LiveResourceListener<T> = (data: T, client: HalEndpointClient) => void;
+
+interface LiveResourceSubscription<T> {
+    listener: LiveResourceListener<T>;
+    onError?: (error: any) => void;
+}
+
+interface PendingMutation<T> {
+    update: (data: T) => T;
+}
+
+/**
+ * Keeps a client up to date by reloading its self link. The resource is reloaded when Refresh is
+ * called, on an interval or when the window gets the focus, and subscribers are told about the new data.
+ * When a link that is not a GET succeeds on the same href through any client that shares the
+ * resource's settings, the resource is reloaded too. Call Dispose when the resource is no longer needed.
+ *
+ * Changes can be shown before the server has them with MutateLinkWithBody. The client then holds the
+ * last data from the server with the pending changes applied on top.
+ */
+export class LiveResource<T = any> {
+    private client: HalEndpointClient;
+    private confirmed: HalEndpointClient; //The last client from the server, without pending changes
+    private pending: PendingMutation<T>[] = [];
+    private mutations: Promise<any> = Promise.resolve();
+    private sending: HalLink | undefined = undefined;
+    private options: LiveResourceOptions;
+    private subscriptions: LiveResourceSubscription<T>[] = [];
+    private refreshing: Promise<HalEndpointClient> | undefined = undefined;
+    private refreshingVersion = 0;
+    private nextRefresh: Promise<HalEndpointClient> | undefined = undefined;
+    private version = 0; //Increased each time the resource changes on the server
+    private stale: boolean = false;
+    private timer: any = undefined;
+    private removeChangeListener: () => void;
+    private focusListener = () => this.RefreshForSubscribers();
+    private visibilityListener = () => {
+        if (document.visibilityState === "visible") {
+            this.RefreshForSubscribers();
+        }
+    };
+
+    /**
+     * Constructor.
+     * @param client - The client for the resource.
+     * @param options - The options for the resource.
+     */
+    constructor(client: HalEndpointClient, options?: LiveResourceOptions) {
+        this.client = client;
+        this.confirmed = client;
+        this.options = { ...options };
+        if (this.options.selfRel === undefined) {
+            this.options.selfRel = "self";
+        }
+        this.removeChangeListener = client.OnResourceChanged((href, method) => {
+            //The result of a mutation sent by this resource replaces the data, so it does not need a reload
+            if (this.sending !== undefined && this.sending.href === href && this.sending.method === method) {
+                return;
+            }
+            if (LiveResource.IsSameResource(href, this.GetHref())) {
+                this.Invalidate();
+            }
+        });
+    }
+
+    /**
+     * The current client for the resource.
+     */
+    public get Client(): HalEndpointClient {
+        return this.client;
+    }
+
+    /**
+     * True if the resource changed on the server and has not been reloaded yet.
+     */
+    public get IsStale(): boolean {
+        return this.stale;
+    }
+
+    /**
+     * True if there are changes that have been applied locally that the server has not accepted yet.
+     */
+    public get HasPendingChanges(): boolean {
+        return this.pending.length > 0;
+    }
+
+    /**
+     * Get the current data for the resource.
+     */
+    public GetData(): T {
+        return this.client.GetData<T>();
+    }
+
+    /**
+     * Reload the resource and tell the subscribers about the new data. If the resource is already
+     * being reloaded the same promise is returned, unless the resource changed after that reload
+     * started. Then it is reloaded again when the current reload finishes.
+     * @param options - The request options, the requestOptions from the constructor are used if this is undefined.
+     * @returns The new client.
+     */
+    public Refresh(options?: RequestOptions): Promise<HalEndpointClient> {
+        if (this.refreshing !== undefined) {
+            if (this.refreshingVersion === this.version) {
+                return this.refreshing;
+            }
+            if (this.nextRefresh === undefined) {
+                this.nextRefresh = this.refreshing.catch(() => { })
+                    .then(() => {
+                        this.nextRefresh = undefined;
+                        return this.Refresh(options);
+                    });
+            }
+            return this.nextRefresh;
+        }
+        var version = this.version;
+        this.refreshingVersion = version;
+        this.refreshing = this.confirmed.LoadLink(this.options.selfRel, options || this.options.requestOptions)
+            .then(client => {
+                this.confirmed = client;
+                if (this.version === version) {
+                    this.stale = false;
+                }
+                this.ApplyPending();
+                return this.client;
+            })
+            .finally(() => this.refreshing = undefined);
+        return this.refreshing;
+    }
+
+    /**
+     * Change the data now and send the change to the server with a link using the body datamode. The
+     * update is applied to the current data and the subscribers are told right away. When the server
+     * responds its result replaces the data if its self link is this resource. If the link returns something
+     * else, such as a 204 No Content or a new item, the resource is reloaded instead. If the request fails the update is rolled
+     * back and the promise rejects with the error, such as a HalError.
+     * Mutations are sent one at a time in the order they were made, if one fails the ones after it are still sent.
+     * @param ref - The rel of the link to send the body to.
+     * @param data - The body of the request.
+     * @param update - Returns the data the resource will have after the change. This gets the current data
+     * and should return a new object instead of modifying it.
+     * @param options - The request options.
+     * @returns The client from the server.
+     */
+    public MutateLinkWithBody<BodyType>(ref: string, data: BodyType, update: (data: T) => T, options?: RequestOptions): Promise<HalEndpointClient> {
+        var mutation: PendingMutation<T> = { update: update };
+        this.pending.push(mutation);
+        try {
+            this.ApplyPending();
+        }
+        catch (err) {
+            this.pending.splice(this.pending.indexOf(mutation), 1);
+            throw err;
+        }
+
+        var result = this.mutations.then(() => {
+            this.sending = this.confirmed.HasLink(ref) ? this.confirmed.GetLink(ref) : undefined;
+            return this.confirmed.LoadLinkWithBody(ref, data, options);
+        })
+            .then(client => {
+                this.sending = undefined;
+                this.pending.splice(this.pending.indexOf(mutation), 1);
+                if (client.HasLink(this.options.selfRel) && LiveResource.IsSameResource(client.GetLink(this.options.selfRel).href, this.GetHref())) {
+                    this.confirmed = client;
+                    this.ApplyPending();
+                    return client;
+                }
+                //The result is not the resource, such as an item added to a collection, the data shown until the reload finishes still has the update
+                ++this.version;
+                this.stale = true;
+                return this.Refresh()
+                    .then(() => client, err => {
+                        this.NotifyError(err);
+                        return client; //The change was still saved
+                    });
+            }, err => {
+                this.sending = undefined;
+                this.pending.splice(this.pending.indexOf(mutation), 1);
+                this.ApplyPending();
+                throw err;
+            });
+        this.mutations = result.catch(() => { }); //Keep going after a failure
+        return result;
+    }
+
+    /**
+     * Mark the resource as changed. It is reloaded now if there are subscribers, otherwise it is reloaded
+     * when the next subscriber is added.
+     */
+    public Invalidate(): void {
+        ++this.version;
+        this.stale = true;
+        this.RefreshForSubscribers();
+    }
+
+    /**
+     * Subscribe to changes to the resource. The listener is not called with the current data, use GetData for that.
+     * @param listener - Called with the new data and client each time the resource is reloaded.
+     * @param onError - Called if a reload that was not started by Refresh fails, including the reload after a mutation.
+     * @returns A function that removes the subscription.
+     */
+    public Subscribe(listener: LiveResourceListener<T>, onError?: (error: any) => void): () => void {
+        var subscription: LiveResourceSubscription<T> = { listener: listener, onError: onError };
+        this.subscriptions.push(subscription);
+        if (this.subscriptions.length === 1) {
+            this.Start();
+        }
+        if (this.stale) {
+            this.RefreshForSubscribers();
+        }
+        return () => {
+            var index = this.subscriptions.indexOf(subscription);
+            if (index !== -1) {
+                this.subscriptions.splice(index, 1);
+                if (this.subscriptions.length === 0) {
+                    this.Stop();
+                }
+            }
+        };
+    }
+
+    /**
+     * Remove all the subscribers and stop listening for changes.
+     */
+    public Dispose(): void {
+        this.subscriptions = [];
+        this.Stop();
+        this.removeChangeListener();
+    }
+
+    private Start(): void {
+        if (this.options.interval !== undefined) {
+            this.timer = setInterval(() => this.RefreshForSubscribers(), this.options.interval);
+        }
+        if (this.options.refreshOnFocus && typeof window !== "undefined") {
+            window.addEventListener("focus", this.focusListener);
+            document.addEventListener("visibilitychange", this.visibilityListener);
+        }
+    }
+
+    private Stop(): void {
+        if (this.timer !== undefined) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        if (this.options.refreshOnFocus && typeof window !== "undefined") {
+            window.removeEventListener("focus", this.focusListener);
+            document.removeEventListener("visibilitychange", this.visibilityListener);
+        }
+    }
+
+    /**
+     * Reload the resource if anything is subscribed, errors are sent to the subscribers.
+     */
+    private RefreshForSubscribers(): void {
+        if (this.subscriptions.length === 0) {
+            return;
+        }
+        var refresh: Promise<HalEndpointClient>;
+        try {
+            refresh = this.Refresh();
+        }
+        catch (err) {
+            refresh = Promise.reject(err);
+        }
+        refresh.catch(err => this.NotifyError(err));
+    }
+
+    private NotifyError(err: any): void {
+        this.Notify(s => {
+            if (s.onError !== undefined) {
+                s.onError(err);
+            }
+        });
+    }
+
+    /**
+     * Set the client to the last data from the server with the pending changes applied and tell the subscribers.
+     */
+    private ApplyPending(): void {
+        var data = this.confirmed.GetData<T>();
+        for (var i = 0; i < this.pending.length; ++i) {
+            data = this.pending[i].update(data);
+        }
+        var client = this.pending.length > 0 ? this.confirmed.WithData(data) : this.confirmed;
+        this.client = client;
+        this.Notify(s => s.listener(client.GetData<T>(), client));
+    }
+
+    private Notify(callback: (subscription: LiveResourceSubscription<T>) => void): void {
+        //Copy the subscriptions, they can unsubscribe when called
+        var current = this.subscriptions.slice();
+        for (var i = 0; i < current.length; ++i) {
+            try {
+                callback(current[i]);
+            }
+            catch (err) {
+                //One subscriber can't stop the others from being told
+            }
+        }
+    }
+
+    private GetHref(): string | undefined {
+        var link = this.client.GetLink(this.options.selfRel);
+        return link !== undefined ? link.href : undefined;
+    }
+
+    /**
+     * Determine if two hrefs are the same resource, the query is ignored so a change reloads a resource loaded with a query.
+     */
+    private static IsSameResource(changed: string, self: string | undefined): boolean {
+        if (self === undefined) {
+            return false;
+        }
+        var getResource = (href: string) => {
+            var queryStart = href.indexOf('?');
+            return queryStart === -1 ? href : href.substring(0, queryStart);
+        };
+        return getResource(changed) === getResource(self);
+    }
+}
@@ -0,0 +1,151 @@
+﻿import { HalData, HalLink, MediaTypeContext, MediaTypeParser } from './EndpointClient';
+import { MODE_Template } from './DataModes';
+
+//Media Types
+export const MEDIA_Halcyon = "application/json+halcyon";
+export const MEDIA_HalJson = "application/hal+json";
+export const MEDIA_Json = "application/json";
+
+/**
+ * Get the media type from a Content-Type or Accept value, this removes any parameters and lowercases it.
+ * @param contentType - The header value.
+ */
+export function getMediaType(contentType: string): string {
+    return contentType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Parses halcyon json, this is the format the halcyon servers send.
+ */
+export class HalcyonMediaType implements MediaTypeParser {
+    public Parse(text: string, context: MediaTypeContext): HalData {
+        return JSON.parse(text, context.reviver);
+    }
+}
+
+/**
+ * Parses standard hal json. The links do not have methods, so they are all loaded with GET,
+ * and templated links get the template datamode. If a rel has more than one link the first one
+ * is used. Relative hrefs are resolved against the url of the response.
+ */
+export class HalJsonMediaType implements MediaTypeParser {
+    public Parse(text: string, context: MediaTypeContext): HalData {
+        return HalJsonMediaType.Normalize(JSON.parse(text, context.reviver), context.url);
+    }
+
+    private static Normalize(data: any, baseUrl: string): HalData {
+        if (data === null || typeof data !== "object" || Array.isArray(data)) {
+            return data;
+        }
+
+        var links: { [rel: string]: HalLink } = undefined;
+        if (data._links !== undefined && data._links !== null) {
+            links = {};
+            for (var rel in data._links) {
+                var link = data._links[rel];
+                if (Array.isArray(link)) {
+                    link = link[0];
+                }
+                if (rel === "curies" || link === undefined || link === null || typeof link.href !== "string") {
+                    continue;
+                }
+                var halLink: HalLink = {
+                    href: HalJsonMediaType.Resolve(link.href, baseUrl),
+                    method: "GET"
+                };
+                if (link.templated) {
+                    halLink.datamode = MODE_Template;
+                }
+                links[rel] = halLink;
+            }
+        }
+
+        var embeds: { [name: string]: HalData[] } = undefined;
+        if (data._embedded !== undefined && data._embedded !== null) {
+            embeds = {};
+            for (var name in data._embedded) {
+                //Halcyon embeds are always arrays, hal allows single objects too
+                var embedded = data._embedded[name];
+                var items: any[] = Array.isArray(embedded) ? embedded : [embedded];
+                embeds[name] = items.map(i => HalJsonMediaType.Normalize(i, baseUrl));
+            }
+        }
+
+        var result = { ...data };
+        result._links = links;
+        result._embedded = embeds;
+        return result;
+    }
+
+    private static Resolve(href: string, baseUrl: string): string {
+        if (!baseUrl) {
+            return href;
+        }
+        //Leave uri templates alone, otherwise the braces would be encoded
+        var templateStart = href.indexOf("{");
+        if (templateStart !== -1) {
+            return new URL(href.substring(0, templateStart), baseUrl).href + href.substring(templateStart);
+        }
+        return new URL(href, baseUrl).href;
+    }
+}
+
+/**
+ * Parses plain json. The data will not have any links or embeds.
+ */
+export class JsonMediaType implements MediaTypeParser {
+    public Parse(text: string, context: MediaTypeContext): HalData {
+        var data = JSON.parse(text, context.reviver);
+        if (data !== null && typeof data === "object" && !Array.isArray(data)) {
+            data = { ...data };
+            data._links = undefined;
+            data._embedded = undefined;
+        }
+        return data;
+    }
+}
+
+var mediaTypes: { [mediaType: string]: MediaTypeParser } = {};
+mediaTypes[MEDIA_Halcyon] = new HalcyonMediaType();
+mediaTypes[MEDIA_HalJson] = new HalJsonMediaType();
+mediaTypes[MEDIA_Json] = new JsonMediaType();
+
+/**
+ * Register a parser for a media type for all clients. This will replace any existing parser for the
+ * media type, including the built in ones. Responses are only parsed if their media type is in the
+ * accept setting of the client, so add the media type there too. To only change the parser for some
+ * clients use the mediaTypes setting instead.
+ * @param mediaType - The media type, such as application/hal+json.
+ * @param parser - The parser.
+ */
+export function registerMediaType(mediaType: string, parser: MediaTypeParser): void {
+    mediaTypes[getMediaType(mediaType)] = parser;
+}
+
+/**
+ * Get the registered parser for a media type.
+ * @param mediaType - The media type.
+ * @returns The parser or undefined if there is none.
+ */
+export function getMediaTypeParser(mediaType: string): MediaTypeParser | undefined {
+    mediaType = getMediaType(mediaType);
+    return Object.prototype.hasOwnProperty.call(mediaTypes, mediaType) ? mediaTypes[mediaType] : undefined;
+}
+
+/**
+ * Determine if a media type is in an Accept list. Wildcards like application/* and * / * are supported.
+ * @param mediaType - The media type to check.
+ * @param accept - The Accept list.
+ */
+export function isAcceptedMediaType(mediaType: string, accept: string[]): boolean {
+    mediaType = getMediaType(mediaType);
+    var slash = mediaType.indexOf("/");
+    var type = slash !== -1 ? mediaType.substring(0, slash) : mediaType;
+    for (var i = 0; i < accept.length; ++i) {
+        var accepted = getMediaType(accept[i]);
+        if (accepted === mediaType || accepted === "*/*" || accepted === type + "/*") {
+            return true;
+        }
+    }
+    return false;
+}
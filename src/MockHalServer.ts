@@ -0,0 +1,305 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+import { HalLink } from './EndpointClient';
+
+/**
+ * A link on a mock resource.
+ */
+export interface MockLink {
+    /**
+     * The href of the link, relative paths are resolved against the server's base url.
+     */
+    href: string;
+
+    /**
+     * The method of the link, defaults to GET.
+     */
+    method?: string;
+
+    datamode?: string;
+    requestdata?: any;
+}
+
+/**
+ * A resource returned by the mock server. The links and embeds are converted to the
+ * hal format when the resource is sent.
+ */
+export interface MockResource {
+    /**
+     * The data for the resource.
+     */
+    data?: any;
+
+    /**
+     * The links on the resource by rel.
+     */
+    links?: { [rel: string]: MockLink };
+
+    /**
+     * The embedded resources by name.
+     */
+    embeds?: { [name: string]: MockResource[] };
+}
+
+/**
+ * A raw response from the mock server, use this to return errors or other content types.
+ */
+export interface MockResponse {
+    status: number;
+
+    /**
+     * The body of the response. Strings are sent as is, anything else is sent as json.
+     */
+    body?: any;
+
+    /**
+     * The content type, defaults to application/json+halcyon for ok responses and application/json for errors.
+     */
+    contentType?: string;
+
+    headers?: { [key: string]: string };
+}
+
+/**
+ * A request that was sent to the mock server.
+ */
+export interface MockRequest {
+    method: string;
+    href: string;
+
+    /**
+     * The path of the request without the query.
+     */
+    path: string;
+
+    /**
+     * The query values of the request.
+     */
+    query: { [key: string]: string | string[] };
+
+    headers: { [key: string]: string };
+
+    /**
+     * The request body. Json bodies are parsed, anything else is left as it was sent.
+     */
+    body: any;
+}
+
+/**
+ * A function to handle a request to the mock server. Return a resource to send it as hal or a MockResponse for anything else.
+ */
+export type MockHandler = (request: MockRequest) => MockResource | MockResponse | Promise<MockResource | MockResponse>;
+
+function isMockResponse(result: MockResource | MockResponse): result is MockResponse {
+    return (<MockResponse>result).status !== undefined;
+}
+
+/**
+ * An in memory hal server that can be used as the fetcher for a HalEndpointClient. Declare the
+ * resources and handlers for each path, any requests to paths that are not declared return a 404.
+ */
+export class MockHalServer extends Fetcher {
+    private routes: { [key: string]: MockHandler } = {};
+    private baseUrl: string;
+
+    /**
+     * The requests that have been sent to the server in order.
+     */
+    public readonly requests: MockRequest[] = [];
+
+    /**
+     * Constructor.
+     * @param baseUrl - The base url of the server, relative paths are resolved against this.
+     */
+    constructor(baseUrl?: string) {
+        super();
+        this.baseUrl = baseUrl !== undefined ? baseUrl : "http://localhost";
+    }
+
+    /**
+     * Add a resource or handler for a method and path. Adding the same method and path again replaces it.
+     * @param method - The http method.
+     * @param path - The path, relative to the base url.
+     * @param handler - The resource to return or a function to handle the request.
+     */
+    public Route(method: string, path: string, handler: MockResource | MockResponse | MockHandler): MockHalServer {
+        var routeHandler: MockHandler = typeof handler === "function" ? handler : () => handler;
+        this.routes[method.toUpperCase() + " " + this.GetPath(path)] = routeHandler;
+        return this;
+    }
+
+    /**
+     * Add a resource or handler for a GET request.
+     */
+    public Get(path: string, handler: MockResource | MockResponse | MockHandler): MockHalServer {
+        return this.Route("GET", path, handler);
+    }
+
+    /**
+     * Add a resource or handler for a POST request.
+     */
+    public Post(path: string, handler: MockResource | MockResponse | MockHandler): MockHalServer {
+        return this.Route("POST", path, handler);
+    }
+
+    /**
+     * Add a resource or handler for a PUT request.
+     */
+    public Put(path: string, handler: MockResource | MockResponse | MockHandler): MockHalServer {
+        return this.Route("PUT", path, handler);
+    }
+
+    /**
+     * Add a resource or handler for a DELETE request.
+     */
+    public Delete(path: string, handler: MockResource | MockResponse | MockHandler): MockHalServer {
+        return this.Route("DELETE", path, handler);
+    }
+
+    /**
+     * Get a link to a path on this server, use this to load the entry point.
+     * @param path - The path, relative to the base url.
+     * @param method - The method, defaults to GET.
+     */
+    public GetLink(path: string, method?: string): HalLink {
+        return {
+            href: this.Resolve(path),
+            method: method || "GET"
+        };
+    }
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        init = init || {};
+        if (init.signal && init.signal.aborted) {
+            return Promise.reject(new DOMException("The request was aborted.", "AbortError"));
+        }
+
+        var href = typeof url === "string" ? url : url.url;
+        var parsed = new URL(href, this.baseUrl);
+        var method = (init.method || "GET").toUpperCase();
+
+        var query: { [key: string]: string | string[] } = {};
+        parsed.searchParams.forEach((value, key) => {
+            var existing = query[key];
+            if (existing === undefined) {
+                query[key] = value;
+            }
+            else if (Array.isArray(existing)) {
+                existing.push(value);
+            }
+            else {
+                query[key] = [existing, value];
+            }
+        });
+
+        var headers: { [key: string]: string } = {};
+        if (init.headers) {
+            new Headers(<any>init.headers).forEach((value, key) => headers[key] = value);
+        }
+
+        var body = init.body;
+        if (typeof body === "string" && headers["content-type"] !== undefined && headers["content-type"].indexOf("json") !== -1) {
+            body = JSON.parse(body);
+        }
+
+        var request: MockRequest = {
+            method: method,
+            href: parsed.href,
+            path: parsed.pathname,
+            query: query,
+            headers: headers,
+            body: body
+        };
+        this.requests.push(request);
+
+        var handler = this.routes[method + " " + parsed.pathname];
+        if (handler === undefined) {
+            return Promise.resolve(this.CreateResponse({
+                status: 404,
+                body: { message: "No mock route for " + method + " " + parsed.pathname }
+            }));
+        }
+
+        var response = Promise.resolve(handler(request))
+            .then(result => {
+                if (isMockResponse(result)) {
+                    return this.CreateResponse(result);
+                }
+                return this.CreateResponse({
+                    status: 200,
+                    body: this.ToHal(result)
+                });
+            });
+
+        //Like fetch, aborting the signal while the handler runs rejects the request
+        var signal = init.signal;
+        if (!signal) {
+            return response;
+        }
+        return new Promise<Response>((resolve, reject) => {
+            var onAbort = () => reject(new DOMException("The request was aborted.", "AbortError"));
+            signal.addEventListener("abort", onAbort);
+            response.then(resolve, reject)
+                .finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    /**
+     * Convert a mock resource to hal data.
+     * @param resource - The resource to convert.
+     */
+    public ToHal(resource: MockResource): any {
+        var hal: any = { ...resource.data };
+        if (resource.links !== undefined) {
+            hal._links = {};
+            for (var rel in resource.links) {
+                var link = resource.links[rel];
+                var halLink: any = {
+                    href: this.Resolve(link.href),
+                    method: link.method || "GET"
+                };
+                if (link.datamode !== undefined) {
+                    halLink.datamode = link.datamode;
+                }
+                if (link.requestdata !== undefined) {
+                    halLink.requestdata = link.requestdata;
+                }
+                hal._links[rel] = halLink;
+            }
+        }
+        if (resource.embeds !== undefined) {
+            hal._embedded = {};
+            for (var name in resource.embeds) {
+                hal._embedded[name] = resource.embeds[name].map(e => this.ToHal(e));
+            }
+        }
+        return hal;
+    }
+
+    private CreateResponse(result: MockResponse): Response {
+        var ok = result.status >= 200 && result.status <= 299;
+        var headers: { [key: string]: string } = { ...result.headers };
+        var body: string = null;
+        //These statuses can't have a body
+        if (result.body !== undefined && result.status !== 204 && result.status !== 304) {
+            body = typeof result.body === "string" ? result.body : JSON.stringify(result.body);
+            headers["Content-Type"] = result.contentType || (ok ? "application/json+halcyon" : "application/json");
+        }
+        return new Response(body, {
+            status: result.status,
+            headers: headers
+        });
+    }
+
+    private Resolve(path: string): string {
+        //Leave uri templates alone, otherwise the braces would be encoded
+        var templateStart = path.indexOf("{");
+        if (templateStart !== -1) {
+            return new URL(path.substring(0, templateStart), this.baseUrl).href + path.substring(templateStart);
+        }
+        return new URL(path, this.baseUrl).href;
+    }
+
+    private GetPath(path: string): string {
+        return new URL(path, this.baseUrl).pathname;
+    }
+}
@@ -0,0 +1,342 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+import { HalEndpointClient, HalEndpointClientSettings, HalError, NetworkError, OfflineHandler, OfflineRequest, RequestCancelledError, UploadOptions } from './EndpointClient';
+import { MODE_Body, MODE_Form, MODE_Query } from './DataModes';
+
+/**
+ * This interface stores the requests for an OfflineQueue. The data of a request can contain
+ * blobs, so stores that write somewhere other than memory must be able to save them.
+ */
+export interface OfflineStore {
+    /**
+     * Store a request at the end of the queue.
+     * @param request - The request to store, this does not have an id yet.
+     * @returns The stored request with its id.
+     */
+    Add(request: OfflineRequest): Promise<OfflineRequest>;
+
+    /**
+     * Get all the stored requests in the order they were added.
+     */
+    GetAll(): Promise<OfflineRequest[]>;
+
+    /**
+     * Remove a request.
+     * @param id - The id of the request.
+     */
+    Remove(id: number): Promise<void>;
+}
+
+/**
+ * An offline store that keeps requests in memory, they are lost when the page is closed.
+ */
+export class MemoryOfflineStore implements OfflineStore {
+    private requests: OfflineRequest[] = [];
+    private nextId = 1;
+
+    public Add(request: OfflineRequest): Promise<OfflineRequest> {
+        var stored: OfflineRequest = { ...request, id: this.nextId++ };
+        this.requests.push(stored);
+        return Promise.resolve(stored);
+    }
+
+    public GetAll(): Promise<OfflineRequest[]> {
+        return Promise.resolve(this.requests.slice());
+    }
+
+    public Remove(id: number): Promise<void> {
+        this.requests = this.requests.filter(r => r.id !== id);
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Copy data so blobs with a fileName property added become Files. IndexedDB only saves the blob
+ * itself, but a File keeps its name and is sent with it in form data.
+ */
+function keepFileNames(value: any): any {
+    if (value instanceof Blob && !(value instanceof File) && (<any>value).fileName) {
+        return new File([value], (<any>value).fileName, { type: value.type });
+    }
+    if (Array.isArray(value)) {
+        return value.map(keepFileNames);
+    }
+    if (value && value.constructor === {}.constructor) {
+        var copy: any = {};
+        for (var key in value) {
+            copy[key] = keepFileNames(value[key]);
+        }
+        return copy;
+    }
+    return value;
+}
+
+/**
+ * An offline store that keeps requests in IndexedDB, so they are still there after the page is
+ * reloaded. Blobs in the request data, such as FileInfo files, are saved with the request.
+ */
+export class IndexedDbOfflineStore implements OfflineStore {
+    private database: Promise<IDBDatabase> | undefined = undefined;
+
+    /**
+     * Constructor.
+     * @param databaseName - The name of the database. Defaults to "halcyon-offline".
+     * @param storeName - The name of the object store in the database. Defaults to "requests".
+     */
+    constructor(private databaseName: string = "halcyon-offline", private storeName: string = "requests") {
+
+    }
+
+    public Add(request: OfflineRequest): Promise<OfflineRequest> {
+        var stored: OfflineRequest = { ...request, data: keepFileNames(request.data) };
+        delete stored.id; //The store assigns the ids
+        return this.Run("readwrite", store => store.add(stored))
+            .then(id => ({ ...stored, id: <number>id }));
+    }
+
+    public GetAll(): Promise<OfflineRequest[]> {
+        //The ids auto increment, so the key order is the order the requests were added
+        return this.Run("readonly", store => store.getAll());
+    }
+
+    public Remove(id: number): Promise<void> {
+        return this.Run("readwrite", store => store.delete(id))
+            .then(() => { });
+    }
+
+    private Run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        return this.Open().then(database => new Promise<T>((resolve, reject) => {
+            var transaction = database.transaction(this.storeName, mode);
+            var request = action(transaction.objectStore(this.storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        }));
+    }
+
+    private Open(): Promise<IDBDatabase> {
+        if (this.database === undefined) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                var request = indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(this.storeName, { keyPath: "id", autoIncrement: true });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            //Try again next time if the database could not be opened
+            this.database.catch(() => this.database = undefined);
+        }
+        return this.database;
+    }
+}
+
+/**
+ * The result of sending a queued request.
+ * sent - The server accepted the request.
+ * conflict - The server returned 409 Conflict or 412 Precondition Failed, the resource changed while the request was waiting.
+ * failed - The server returned any other error.
+ */
+export type OfflineResultStatus = "sent" | "conflict" | "failed";
+
+/**
+ * The result of sending a queued request.
+ */
+export interface OfflineResult {
+    /**
+     * The request that was sent.
+     */
+    request: OfflineRequest;
+
+    status: OfflineResultStatus;
+
+    /**
+     * The client for the response if the request was sent.
+     */
+    client?: HalEndpointClient;
+
+    /**
+     * The error from the server if the request was not sent, usually a HalError.
+     */
+    error?: any;
+}
+
+/**
+ * Options for an OfflineQueue.
+ */
+export interface OfflineQueueOptions {
+    /**
+     * The store to keep the requests in. Defaults to a MemoryOfflineStore.
+     */
+    store?: OfflineStore;
+
+    /**
+     * False to only send the requests when Replay is called. By default they are sent when the window
+     * goes back online.
+     */
+    autoReplay?: boolean;
+
+    /**
+     * Called when a request is added to the queue.
+     */
+    onQueued?: (request: OfflineRequest) => void;
+
+    /**
+     * Called with the result of each request that is sent.
+     */
+    onResult?: (result: OfflineResult) => void;
+
+    /**
+     * Called when the server reports a conflict for a request. This is called before onResult, use it
+     * to show the user the data that was not saved.
+     */
+    onConflict?: (result: OfflineResult) => void;
+}
+
+/**
+ * Stores link calls that fail because there is no connection and sends them again, in the order they
+ * were made, when the connection returns. Put the queue in the offline setting of the clients to use it,
+ * the calls that are stored reject with a RequestQueuedError. Only calls that return a client are
+ * queued, raw and download calls are not since the caller has to read their responses.
+ *
+ * A request that still can't be sent stays in the queue and stops the replay, so the requests after it wait too.
+ * A request the server returns an error for is reported and removed. Call Replay when the app starts to
+ * send any requests that were stored by a store that persists them.
+ */
+export class OfflineQueue implements OfflineHandler {
+    private store: OfflineStore;
+    private options: OfflineQueueOptions;
+    private replaying: Promise<OfflineResult[]> | undefined = undefined;
+    private onlineListener = () => {
+        this.Replay().catch(err => { }); //A failed replay leaves the requests in the queue for next time
+    };
+
+    /**
+     * Constructor.
+     * @param fetcher - The fetcher to send the requests with.
+     * @param settings - The settings to send the requests with, this is usually the settings this queue is in.
+     * @param options - The options for the queue.
+     */
+    constructor(private fetcher: Fetcher, private settings: HalEndpointClientSettings, options?: OfflineQueueOptions) {
+        this.options = options || {};
+        this.store = this.options.store || new MemoryOfflineStore();
+        if (this.options.autoReplay !== false && typeof window !== "undefined") {
+            window.addEventListener("online", this.onlineListener);
+        }
+    }
+
+    public Enqueue(request: OfflineRequest): Promise<OfflineRequest> {
+        return this.store.Add(request)
+            .then(stored => {
+                if (this.options.onQueued !== undefined) {
+                    this.options.onQueued(stored);
+                }
+                return stored;
+            });
+    }
+
+    /**
+     * Get the requests that are waiting to be sent.
+     */
+    public GetPending(): Promise<OfflineRequest[]> {
+        return this.store.GetAll();
+    }
+
+    /**
+     * Remove a request without sending it.
+     * @param id - The id of the request.
+     */
+    public Remove(id: number): Promise<void> {
+        return this.store.Remove(id);
+    }
+
+    /**
+     * Send the queued requests in order. Calling this while a replay is running returns the same promise.
+     * @returns The results of the requests that were sent, any that are not included are still queued.
+     */
+    public Replay(): Promise<OfflineResult[]> {
+        if (this.replaying === undefined) {
+            this.replaying = this.store.GetAll()
+                .then(requests => this.SendNext(requests, 0, []))
+                .finally(() => this.replaying = undefined);
+        }
+        return this.replaying;
+    }
+
+    /**
+     * Stop sending the requests when the window goes back online.
+     */
+    public Dispose(): void {
+        if (typeof window !== "undefined") {
+            window.removeEventListener("online", this.onlineListener);
+        }
+    }
+
+    private SendNext(requests: OfflineRequest[], index: number, results: OfflineResult[]): Promise<OfflineResult[]> {
+        if (index >= requests.length) {
+            return Promise.resolve(results);
+        }
+        var request = requests[index];
+        var sent: Promise<HalEndpointClient>;
+        try {
+            sent = this.Send(request);
+        }
+        catch (err) {
+            sent = Promise.reject(err);
+        }
+        return sent
+            .then((client): OfflineResult => ({ request: request, status: "sent", client: client }), (err): OfflineResult => {
+                if (err instanceof NetworkError || err instanceof RequestCancelledError) {
+                    throw err; //Still can't send it, leave it and the rest in the queue
+                }
+                var status = err instanceof HalError ? err.getStatusCode() : err.status;
+                return { request: request, status: status === 409 || status === 412 ? "conflict" : "failed", error: err };
+            })
+            .then(result => this.store.Remove(request.id)
+                .then(() => {
+                    results.push(result);
+                    if (result.status === "conflict" && this.options.onConflict !== undefined) {
+                        this.options.onConflict(result);
+                    }
+                    if (this.options.onResult !== undefined) {
+                        this.options.onResult(result);
+                    }
+                    return this.SendNext(requests, index + 1, results);
+                }), err => {
+                if (err instanceof NetworkError || err instanceof RequestCancelledError) {
+                    return results;
+                }
+                throw err;
+            });
+    }
+
+    /**
+     * Send a request with the same call it was queued from. Requests with headers came from uploads,
+     * so they are sent as uploads again to keep the headers.
+     */
+    private Send(request: OfflineRequest): Promise<HalEndpointClient> {
+        var links: any = {};
+        links[request.rel] = { href: request.href, method: request.method, datamode: request.datamode };
+        var client = new HalEndpointClient({ _links: links, _embedded: undefined }, this.fetcher, this.settings);
+        var options: UploadOptions = { offline: false, headers: request.headers };
+
+        if (request.data === undefined) {
+            return client.LoadLink(request.rel, options);
+        }
+        if (request.datamode === undefined && request.data instanceof Blob) {
+            return client.UploadLinkWithBlob(request.rel, request.data, options);
+        }
+        switch (request.datamode) {
+            case MODE_Query:
+                return client.LoadLinkWithQuery(request.rel, request.data, options);
+            case MODE_Body:
+                return client.LoadLinkWithBody(request.rel, request.data, options);
+            case MODE_Form:
+                if (request.headers !== undefined) {
+                    return client.UploadLinkWithForm(request.rel, request.data, options);
+                }
+                return client.LoadLinkWithForm(request.rel, request.data, options);
+            default:
+                return client.LoadLinkWithData(request.rel, request.data, options);
+        }
+    }
+}
@@ -0,0 +1,260 @@
+﻿import { HalClientError, HalEndpointClient, RequestOptions } from './EndpointClient';
+
+/**
+ * Options for a PagedCollection. The defaults match the collections returned by halcyon servers.
+ */
+export interface PagedCollectionOptions {
+    /**
+     * The name of the embed that contains the items. Defaults to "values".
+     */
+    embedName?: string;
+
+    /**
+     * The rel of the link to the next page. Defaults to "next".
+     */
+    nextRel?: string;
+
+    /**
+     * The rel of the link to the previous page. Defaults to "previous".
+     */
+    previousRel?: string;
+
+    /**
+     * The rels to try, in order, to find the query to use when jumping to a page. The first one
+     * with request data is used. Defaults to "self", "next", "previous", "first" and "last".
+     */
+    queryRels?: string[];
+
+    /**
+     * The name of the offset property in the data and query. Defaults to "offset".
+     */
+    offsetProperty?: string;
+
+    /**
+     * The name of the limit property in the data and query. Defaults to "limit".
+     */
+    limitProperty?: string;
+
+    /**
+     * The name of the total property in the data. Defaults to "total".
+     */
+    totalProperty?: string;
+
+    /**
+     * True if the offset is the index of the page, false if it is the index of the first item.
+     * Defaults to true, which is how halcyon servers page.
+     */
+    offsetIsPage?: boolean;
+
+    /**
+     * The options to use when loading other pages.
+     */
+    requestOptions?: RequestOptions;
+}
+
+/**
+ * This error is thrown when a page is loaded by index but none of the query rels on the current
+ * page have request data to rerun the query with.
+ */
+export class MissingPageQueryError extends HalClientError {
+    /**
+     * The rels that were searched for a query, the first one is reported as the rel.
+     */
+    public readonly queryRels: string[];
+
+    constructor(pageIndex: number, queryRels: string[]) {
+        super("Cannot find a query link to load page " + pageIndex + " with. Looked for " + queryRels.join(", ") + ".", { rel: queryRels[0] });
+        this.name = "MissingPageQueryError";
+        this.queryRels = queryRels;
+    }
+}
+
+/**
+ * A helper to work with a paged collection. This wraps the client for a single page and can
+ * load other pages from it. Use the async iterator to visit every item in every page starting
+ * with this one.
+ */
+export class PagedCollection<T = any> {
+    private client: HalEndpointClient;
+    private options: PagedCollectionOptions;
+
+    /**
+     * Constructor.
+     * @param client - The client for a page of the collection.
+     * @param options - The options for the collection.
+     */
+    constructor(client: HalEndpointClient, options?: PagedCollectionOptions) {
+        this.client = client;
+        this.options = {
+            embedName: "values",
+            nextRel: "next",
+            previousRel: "previous",
+            queryRels: ["self", "next", "previous", "first", "last"],
+            offsetProperty: "offset",
+            limitProperty: "limit",
+            totalProperty: "total",
+            offsetIsPage: true,
+            ...options
+        };
+    }
+
+    /**
+     * The client for the current page.
+     */
+    public get Client(): HalEndpointClient {
+        return this.client;
+    }
+
+    /**
+     * The total number of items in the collection, undefined if the server did not send it.
+     */
+    public get Total(): number | undefined {
+        return this.client.GetData<any>()[this.options.totalProperty];
+    }
+
+    /**
+     * The offset of the current page, undefined if the server did not send it.
+     */
+    public get Offset(): number | undefined {
+        return this.client.GetData<any>()[this.options.offsetProperty];
+    }
+
+    /**
+     * The number of items per page, undefined if the server did not send it.
+     */
+    public get Limit(): number | undefined {
+        return this.client.GetData<any>()[this.options.limitProperty];
+    }
+
+    /**
+     * The index of the current page starting at 0, undefined if the offset is not known.
+     */
+    public get PageIndex(): number | undefined {
+        var offset = this.Offset;
+        if (offset === undefined) {
+            return undefined;
+        }
+        if (this.options.offsetIsPage) {
+            return offset;
+        }
+        var limit = this.Limit;
+        return limit ? Math.floor(offset / limit) : 0;
+    }
+
+    /**
+     * The number of pages in the collection, undefined if the total or limit is not known.
+     */
+    public get PageCount(): number | undefined {
+        var total = this.Total;
+        var limit = this.Limit;
+        if (total === undefined || !limit) {
+            return undefined;
+        }
+        return Math.ceil(total / limit);
+    }
+
+    /**
+     * Get the clients for the items on this page.
+     */
+    public GetItems(): HalEndpointClient[] {
+        var embed = this.client.GetEmbed<T>(this.options.embedName);
+        return embed !== undefined ? embed.GetAllClients() : [];
+    }
+
+    /**
+     * Get the data for the items on this page.
+     */
+    public GetItemData(): T[] {
+        var embed = this.client.GetEmbed<T>(this.options.embedName);
+        return embed !== undefined ? embed.GetAllData() : [];
+    }
+
+    /**
+     * Determine if there is a next page.
+     */
+    public HasNext(): boolean {
+        return this.client.HasLink(this.options.nextRel);
+    }
+
+    /**
+     * Determine if there is a previous page.
+     */
+    public HasPrevious(): boolean {
+        return this.client.HasLink(this.options.previousRel);
+    }
+
+    /**
+     * Load the next page. Check HasNext first.
+     */
+    public Next(): Promise<PagedCollection<T>> {
+        return this.client.LoadLink(this.options.nextRel, this.options.requestOptions)
+            .then(c => new PagedCollection<T>(c, this.options));
+    }
+
+    /**
+     * Load the previous page. Check HasPrevious first.
+     */
+    public Previous(): Promise<PagedCollection<T>> {
+        return this.client.LoadLink(this.options.previousRel, this.options.requestOptions)
+            .then(c => new PagedCollection<T>(c, this.options));
+    }
+
+    /**
+     * Load a page by index. This reruns the collection's query with the offset changed.
+     * @param pageIndex - The index of the page to load starting at 0.
+     * @param limit - The number of items per page, defaults to the current limit.
+     */
+    public LoadPage(pageIndex: number, limit?: number): Promise<PagedCollection<T>> {
+        if (limit === undefined) {
+            limit = this.Limit;
+        }
+
+        var queryRel = this.GetQueryRel();
+        if (queryRel === undefined) {
+            throw new MissingPageQueryError(pageIndex, this.options.queryRels);
+        }
+
+        var query = { ...this.client.GetLink(queryRel).requestdata };
+        query[this.options.offsetProperty] = this.options.offsetIsPage ? pageIndex : pageIndex * (limit || 0);
+        if (limit !== undefined) {
+            query[this.options.limitProperty] = limit;
+        }
+        return this.client.LoadLinkWithQuery(queryRel, query, this.options.requestOptions)
+            .then(c => new PagedCollection<T>(c, this.options));
+    }
+
+    /**
+     * Iterate through this page and each page after it.
+     */
+    public async *Pages(): AsyncIterableIterator<PagedCollection<T>> {
+        var page: PagedCollection<T> = this;
+        yield page;
+        while (page.HasNext()) {
+            page = await page.Next();
+            yield page;
+        }
+    }
+
+    /**
+     * Iterate through the item clients on this page and each page after it.
+     */
+    public async *[Symbol.asyncIterator](): AsyncIterableIterator<HalEndpointClient> {
+        for await (var page of this.Pages()) {
+            var items = page.GetItems();
+            for (var i = 0; i < items.length; ++i) {
+                yield items[i];
+            }
+        }
+    }
+
+    private GetQueryRel(): string | undefined {
+        var rels = this.options.queryRels;
+        for (var i = 0; i < rels.length; ++i) {
+            var link = this.client.GetLink(rels[i]);
+            if (link !== undefined && link.requestdata) {
+                return rels[i];
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,261 @@
+﻿import { HalEndpointClient, HalError, RequestValidator } from './EndpointClient';
+import { isRawJson } from './JsonSerializer';
+
+/**
+ * This error is thrown when request data fails validation on the client. It works the same
+ * as a HalError with validation errors from the server, so it can be shown on forms the same way.
+ * The status code will be 400 to match what the server would have returned.
+ */
+export class RequestValidationError extends HalError {
+    constructor(errors: { [key: string]: string }) {
+        super({
+            message: "The request data is not valid.",
+            errors: errors
+        }, 400);
+        this.name = "RequestValidationError";
+    }
+}
+
+/**
+ * Validate request data against the requestSchema from the link's docs. The docs are loaded
+ * with GetLinkDoc, so they are only loaded once for all the clients that share their settings.
+ * Links with no docs are not validated.
+ */
+export class SchemaRequestValidator implements RequestValidator {
+    public Validate(client: HalEndpointClient, ref: string, data: any): Promise<void> {
+        if (!client.HasLinkDoc(ref)) {
+            return Promise.resolve();
+        }
+        return client.GetLinkDoc(ref)
+            .then(doc => {
+                if (doc.requestSchema) {
+                    var errors = validateSchema(doc.requestSchema, data);
+                    if (errors !== undefined) {
+                        throw new RequestValidationError(errors);
+                    }
+                }
+            });
+    }
+}
+
+/**
+ * Validate data against a json schema. The error keys are built the same way as HalError.addKey and HalError.addIndex.
+ * @param schema - The schema to validate against.
+ * @param data - The data to validate.
+ * @returns The errors found keyed by the path to the value or undefined if the data is valid.
+ */
+export function validateSchema(schema: any, data: any): { [key: string]: string } | undefined {
+    var errors: { [key: string]: string } = {};
+    var valid = validateValue(schema, schema, data, "", "", errors);
+    return valid ? undefined : errors;
+}
+
+function validateValue(root: any, schema: any, value: any, path: string, displayName: string, errors: { [key: string]: string }): boolean {
+    schema = resolveRef(root, schema);
+    if (isRawJson(value)) {
+        value = JSON.parse(value.rawJSON); //A BigInt that will be sent as a number
+    }
+    if (schema === undefined || schema === null || schema === true) {
+        return true;
+    }
+
+    if (schema.title && displayName === "") {
+        displayName = schema.title;
+    }
+
+    var valid = true;
+
+    if (schema.allOf) {
+        for (var i = 0; i < schema.allOf.length; ++i) {
+            valid = validateValue(root, schema.allOf[i], value, path, displayName, errors) && valid;
+        }
+    }
+
+    var anyOf = schema.anyOf || schema.oneOf;
+    if (anyOf) {
+        var anyValid = false;
+        for (var i = 0; i < anyOf.length && !anyValid; ++i) {
+            anyValid = validateValue(root, anyOf[i], value, path, displayName, {});
+        }
+        if (!anyValid) {
+            addError(errors, path, "The " + displayName + " field is not valid.");
+            return false;
+        }
+    }
+
+    if (value === undefined || value === null) {
+        return valid; //Missing values are checked by required on the parent
+    }
+
+    if (value instanceof Blob) {
+        return valid; //Files can't be checked against a schema
+    }
+
+    if (schema.type !== undefined && !matchesType(schema.type, value)) {
+        addError(errors, path, "The " + displayName + " field must be " + typeName(schema.type) + ".");
+        return false;
+    }
+
+    if (schema.enum && !schema.enum.some(e => e === value)) {
+        addError(errors, path, "The " + displayName + " field must be one of " + schema.enum.join(", ") + ".");
+        return false;
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            addError(errors, path, "The field " + displayName + " must be a string with a minimum length of " + schema.minLength + ".");
+            valid = false;
+        }
+        else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            addError(errors, path, "The field " + displayName + " must be a string with a maximum length of " + schema.maxLength + ".");
+            valid = false;
+        }
+        else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            addError(errors, path, "The field " + displayName + " must match the regular expression '" + schema.pattern + "'.");
+            valid = false;
+        }
+    }
+    else if (typeof value === "number") {
+        if (!inRange(schema, value)) {
+            addError(errors, path, "The field " + displayName + " must be " + rangeDescription(schema) + ".");
+            valid = false;
+        }
+    }
+    else if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            addError(errors, path, "The field " + displayName + " must have at least " + schema.minItems + " items.");
+            valid = false;
+        }
+        else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            addError(errors, path, "The field " + displayName + " must have at most " + schema.maxItems + " items.");
+            valid = false;
+        }
+        if (schema.items) {
+            for (var i = 0; i < value.length; ++i) {
+                valid = validateValue(root, schema.items, value[i], path + '[' + i + ']', displayName, errors) && valid;
+            }
+        }
+    }
+    else if (typeof value === "object") {
+        var required: string[] = schema.required || [];
+        for (var r = 0; r < required.length; ++r) {
+            var requiredValue = value[required[r]];
+            if (requiredValue === undefined || requiredValue === null || requiredValue === "") {
+                addError(errors, addKey(path, required[r]), "The " + propertyDisplayName(root, schema, required[r]) + " field is required.");
+                valid = false;
+            }
+        }
+        for (var key in schema.properties) {
+            if (value[key] !== undefined && value[key] !== null) {
+                valid = validateValue(root, schema.properties[key], value[key], addKey(path, key), propertyDisplayName(root, schema, key), errors) && valid;
+            }
+        }
+    }
+
+    return valid;
+}
+
+function resolveRef(root: any, schema: any): any {
+    //Follow refs until a real schema is found, limit the depth in case of a loop
+    for (var depth = 0; schema && schema.$ref !== undefined && depth < 32; ++depth) {
+        var ref: string = schema.$ref;
+        if (ref.charAt(0) !== '#') {
+            return undefined; //External refs are not supported, don't validate
+        }
+        var parts = ref.substring(1).split('/');
+        var current = root;
+        for (var i = 0; i < parts.length && current !== undefined; ++i) {
+            if (parts[i] !== "") {
+                current = current[decodeURIComponent(parts[i]).replace(/~1/g, '/').replace(/~0/g, '~')];
+            }
+        }
+        schema = current;
+    }
+    return schema;
+}
+
+function matchesType(type: string | string[], value: any): boolean {
+    var types = Array.isArray(type) ? type : [type];
+    for (var i = 0; i < types.length; ++i) {
+        switch (types[i]) {
+            case "string":
+                if (typeof value === "string") { return true; }
+                break;
+            case "integer":
+                if (typeof value === "number" && Math.floor(value) === value) { return true; }
+                break;
+            case "number":
+                if (typeof value === "number") { return true; }
+                break;
+            case "boolean":
+                if (typeof value === "boolean") { return true; }
+                break;
+            case "array":
+                if (Array.isArray(value)) { return true; }
+                break;
+            case "object":
+                if (typeof value === "object" && !Array.isArray(value)) { return true; }
+                break;
+            case "null":
+                break; //Nulls never make it here
+            default:
+                return true; //Unknown types are not checked
+        }
+    }
+    return false;
+}
+
+function typeName(type: string | string[]): string {
+    var types = Array.isArray(type) ? type.filter(t => t !== "null") : [type];
+    return types.map(t => (/^[aeiou]/.test(t) ? "an " : "a ") + t).join(" or ");
+}
+
+function inRange(schema: any, value: number): boolean {
+    //Handle both the old boolean exclusive flags and the newer numeric ones
+    if (schema.minimum !== undefined && (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum)) {
+        return false;
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+        return false;
+    }
+    if (schema.maximum !== undefined && (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum)) {
+        return false;
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+        return false;
+    }
+    return true;
+}
+
+function rangeDescription(schema: any): string {
+    var min = typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum : schema.minimum;
+    var max = typeof schema.exclusiveMaximum === "number" ? schema.exclusiveMaximum : schema.maximum;
+    if (min !== undefined && max !== undefined) {
+        return "between " + min + " and " + max;
+    }
+    if (min !== undefined) {
+        return (schema.exclusiveMinimum !== undefined && schema.exclusiveMinimum !== false ? "greater than " : "greater than or equal to ") + min;
+    }
+    return (schema.exclusiveMaximum !== undefined && schema.exclusiveMaximum !== false ? "less than " : "less than or equal to ") + max;
+}
+
+function propertyDisplayName(root: any, schema: any, key: string): string {
+    var property = resolveRef(root, schema.properties ? schema.properties[key] : undefined);
+    if (property && property.title) {
+        return property.title;
+    }
+    return key;
+}
+
+function addKey(baseName: string, key: string): string {
+    if (baseName !== "") {
+        return baseName + "." + key;
+    }
+    return key;
+}
+
+function addError(errors: { [key: string]: string }, path: string, message: string) {
+    if (errors[path] === undefined) {
+        errors[path] = message;
+    }
+}
@@ -0,0 +1,54 @@
+﻿import { ResponseCache, ResponseCacheEntry } from './EndpointClient';
+
+/**
+ * A response cache that keeps entries in memory. This is useful for entry points and docs
+ * that are loaded over and over again.
+ */
+export class MemoryResponseCache implements ResponseCache {
+    private entries: { [href: string]: ResponseCacheEntry } = {};
+    private maxAge: number;
+
+    /**
+     * Constructor.
+     * @param maxAge - The number of milliseconds to use an entry without asking the server if it changed,
+     * when the response does not have a Cache-Control max-age. If this is not set the server is always
+     * asked with the conditional headers.
+     */
+    constructor(maxAge?: number) {
+        this.maxAge = maxAge;
+    }
+
+    public Get(href: string): ResponseCacheEntry | undefined {
+        return this.entries[href];
+    }
+
+    public Set(href: string, entry: ResponseCacheEntry): void {
+        //Store a copy, the entry passed in is not modified
+        var stored: ResponseCacheEntry = {
+            body: entry.body,
+            contentType: entry.contentType,
+            etag: entry.etag,
+            lastModified: entry.lastModified,
+            expires: entry.expires
+        };
+        if (stored.expires === undefined && this.maxAge !== undefined) {
+            stored.expires = Date.now() + this.maxAge;
+        }
+        this.entries[href] = stored;
+    }
+
+    /**
+     * Remove the entry for href. Entries for the same path with a different query are kept,
+     * the query can select a different resource.
+     */
+    public Invalidate(href: string): void {
+        delete this.entries[href];
+    }
+
+    /**
+     * Remove all entries from the cache.
+     */
+    public Clear(): void {
+        this.entries = {};
+    }
+}
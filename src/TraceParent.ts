@@ -0,0 +1,118 @@
+﻿import { HalMiddleware, HalRequest } from './EndpointClient';
+
+/**
+ * The trace that requests should be part of, such as the trace for the current ui action.
+ */
+export interface TraceContext {
+    /**
+     * The trace id as 32 lowercase hex characters.
+     */
+    traceId: string;
+
+    /**
+     * False if the trace is not being recorded. Defaults to true.
+     */
+    sampled?: boolean;
+
+    /**
+     * A tracestate header value to send with the traceparent.
+     */
+    traceState?: string;
+}
+
+/**
+ * Options for the TraceParentMiddleware.
+ */
+export interface TraceParentOptions {
+    /**
+     * Get the trace the requests are part of. If this is undefined or returns undefined each request starts a new trace.
+     */
+    getContext?: () => TraceContext | undefined;
+
+    /**
+     * Only add the headers for requests to these origins, such as "https://api.example.com".
+     * Leave this undefined to add them to all requests. Servers from other origins will have to
+     * allow the traceparent header with CORS.
+     */
+    origins?: string[];
+}
+
+const TraceIdPattern = /^[0-9a-f]{32}$/;
+
+/**
+ * Middleware that adds a W3C traceparent header to each request. Each request gets its own span id in the
+ * trace from the context, so the server spans will be children of the request. The header is reported to
+ * observers in RequestEvent.traceparent, so client telemetry can record the same ids.
+ */
+export class TraceParentMiddleware implements HalMiddleware {
+    private options: TraceParentOptions;
+
+    constructor(options?: TraceParentOptions) {
+        this.options = options || {};
+    }
+
+    public OnRequest(request: HalRequest): void {
+        if (!this.IsTracedOrigin(request.link.href)) {
+            return;
+        }
+
+        var context = this.options.getContext !== undefined ? this.options.getContext() : undefined;
+        var traceId = context !== undefined && TraceIdPattern.test(context.traceId) && !/^0+$/.test(context.traceId)
+            ? context.traceId
+            : createTraceId();
+        var sampled = context === undefined || context.sampled !== false;
+
+        request.headers["traceparent"] = "00-" + traceId + "-" + createSpanId() + "-" + (sampled ? "01" : "00");
+        if (context !== undefined && context.traceState) {
+            request.headers["tracestate"] = context.traceState;
+        }
+    }
+
+    private IsTracedOrigin(href: string): boolean {
+        if (this.options.origins === undefined) {
+            return true;
+        }
+        var origin: string;
+        try {
+            origin = new URL(href, typeof location !== "undefined" ? location.href : undefined).origin;
+        }
+        catch (err) {
+            return false;
+        }
+        return this.options.origins.some(o => o.replace(/\/$/, "").toLowerCase() === origin.toLowerCase());
+    }
+}
+
+/**
+ * Create a random trace id.
+ */
+export function createTraceId(): string {
+    return randomHex(16);
+}
+
+/**
+ * Create a random span id.
+ */
+export function createSpanId(): string {
+    return randomHex(8);
+}
+
+function randomHex(byteCount: number): string {
+    var bytes = new Uint8Array(byteCount);
+    do {
+        if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+            crypto.getRandomValues(bytes);
+        }
+        else {
+            for (var i = 0; i < byteCount; ++i) {
+                bytes[i] = Math.floor(Math.random() * 256);
+            }
+        }
+    } while (bytes.every(b => b === 0)); //All zeros is not a valid id
+
+    var hex = "";
+    for (var j = 0; j < bytes.length; ++j) {
+        hex += (bytes[j] < 16 ? "0" : "") + bytes[j].toString(16);
+    }
+    return hex;
+}
@@ -0,0 +1,137 @@
+﻿import { HalData, HalEndpointClient, HalLink, RequestOptions } from './EndpointClient';
+
+/**
+ * Describes the shape of a client, the data it contains and the links it has.
+ */
+export interface TypedClientDef<TData = any, TLinks extends TypedLinkMap = any> {
+    data: TData;
+    links: TLinks;
+}
+
+/**
+ * Describes a single link, the data it takes as its request and the client it returns.
+ * Use void as the request type for links that do not take any data.
+ */
+export interface TypedLinkDef<TRequest = void, TResult extends TypedClientDef = TypedClientDef> {
+    request: TRequest;
+    result: TResult;
+}
+
+/**
+ * A map of rels to the link definitions.
+ */
+export type TypedLinkMap = { [rel: string]: TypedLinkDef<any, any> };
+
+/**
+ * The rels that are defined on a client definition.
+ */
+export type TypedRel<TDef extends TypedClientDef> = keyof TDef["links"] & string;
+
+/**
+ * The rels that take data, these are the links that do not have a void request type.
+ */
+export type TypedDataRel<TDef extends TypedClientDef> = {
+    [TRel in TypedRel<TDef>]: [TDef["links"][TRel]["request"]] extends [void] ? never : TRel
+}[TypedRel<TDef>];
+
+/**
+ * A typed view of a HalEndpointClient. The rels, the data sent to them and the data that
+ * comes back are checked by the compiler using the TypedClientDef passed as TDef.
+ * This does not change how the links are loaded, the underlying client's links are still used
+ * so the server decides which links are actually available.
+ */
+export class TypedEndpointClient<TDef extends TypedClientDef> {
+    /**
+     * Constructor.
+     * @param client The client to provide a typed view of.
+     */
+    constructor(private halClient: HalEndpointClient) {
+
+    }
+
+    /**
+     * Get the HalEndpointClient this typed client is using.
+     */
+    public get client(): HalEndpointClient {
+        return this.halClient;
+    }
+
+    /**
+     * Get the data portion of this client.
+     * @returns The data.
+     */
+    public getData(): TDef["data"] {
+        return this.halClient.GetData<TDef["data"]>();
+    }
+
+    /**
+     * Get the hal data for the client so it can be stored, see HalEndpointClient.toJSON.
+     * @returns The hal data.
+     */
+    public toJSON(): HalData {
+        return this.halClient.toJSON();
+    }
+
+    /**
+     * Check to see if a link exists on this client.
+     * @param rel - The name of the link.
+     * @returns - True if the link exists, false otherwise
+     */
+    public hasLink(rel: TypedRel<TDef>): boolean {
+        return this.halClient.HasLink(rel);
+    }
+
+    /**
+     * Get a single named link.
+     * @param rel - The name of the link to recover.
+     * @returns The link or undefined if the link does not exist.
+     */
+    public getLink(rel: TypedRel<TDef>): HalLink {
+        return this.halClient.GetLink(rel);
+    }
+
+    /**
+     * Load a link without any data and get a typed client for the results. Links with request data
+     * send that data, use loadWithData to send different data.
+     * @param rel - The link to load.
+     * @param options - The request options.
+     * @returns A typed client for the result.
+     */
+    public load<TRel extends TypedRel<TDef>>(rel: TRel, options?: RequestOptions): Promise<TypedEndpointClient<TDef["links"][TRel]["result"]>> {
+        return this.halClient.LoadLink(rel, options)
+            .then(c => new TypedEndpointClient<TDef["links"][TRel]["result"]>(c));
+    }
+
+    /**
+     * Load a link with data using the link's data mode and get a typed client for the results.
+     * @param rel - The link to load.
+     * @param data - The data to send to the link.
+     * @param options - The request options.
+     * @returns A typed client for the result.
+     */
+    public loadWithData<TRel extends TypedDataRel<TDef>>(rel: TRel, data: TDef["links"][TRel]["request"], options?: RequestOptions): Promise<TypedEndpointClient<TDef["links"][TRel]["result"]>> {
+        return this.halClient.LoadLinkWithData(rel, data, options)
+            .then(c => new TypedEndpointClient<TDef["links"][TRel]["result"]>(c));
+    }
+
+    /**
+     * Load a link without any data and get the raw response.
+     * @param rel - The link to load.
+     * @param options - The request options.
+     * @returns The response from the server.
+     */
+    public loadRaw(rel: TypedRel<TDef>, options?: RequestOptions): Promise<Response> {
+        return this.halClient.LoadRawLink(rel, options);
+    }
+
+    /**
+     * Load a link with data using the link's data mode and get the raw response.
+     * @param rel - The link to load.
+     * @param data - The data to send to the link.
+     * @param options - The request options.
+     * @returns The response from the server.
+     */
+    public loadRawWithData<TRel extends TypedDataRel<TDef>>(rel: TRel, data: TDef["links"][TRel]["request"], options?: RequestOptions): Promise<Response> {
+        return this.halClient.LoadRawLinkWithData(rel, data, options);
+    }
+}
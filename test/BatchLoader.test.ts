@@ -0,0 +1,80 @@
+﻿import { describe, expect, it } from 'vitest';
+import { BatchLoader } from '../src/BatchLoader';
+import { HalEndpointClient, MissingRelError, RequestCancelledError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", {
+        links: {
+            Item: { href: "/item" },
+            Search: { href: "/search", datamode: "query" },
+            Slow: { href: "/slow" }
+        }
+    });
+    server.Get("/item", { data: { id: 1 } });
+    server.Get("/search", request => ({ data: { q: request.query["q"] } }));
+    server.Get("/slow", () => new Promise(resolve => setTimeout(() => resolve({ data: { slow: true } }), 20)));
+    return server;
+}
+
+function countRequests(server: MockHalServer, path: string): number {
+    return server.requests.filter(r => r.path === path).length;
+}
+
+describe("BatchLoader", () => {
+    it("shares GET requests for the same href", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var loader = new BatchLoader();
+        var [a, b] = await Promise.all([loader.Load(entry, "Item"), loader.Load(entry, "Item")]);
+        expect(a).toBe(b);
+        expect(countRequests(server, "/item")).toBe(1);
+    });
+
+    it("does not share requests that have a signal or timeout", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var loader = new BatchLoader();
+        var controller = new AbortController();
+        var cancelled = loader.Load(entry, "Slow", undefined, { signal: controller.signal });
+        var other = loader.Load(entry, "Slow");
+        controller.abort();
+        await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+        expect((await other).GetData()).toEqual({ slow: true });
+    });
+
+    it("limits the number of requests running at once", async () => {
+        var server = createServer();
+        var running = 0;
+        var most = 0;
+        server.Get("/item", () => {
+            most = Math.max(most, ++running);
+            return new Promise(resolve => setTimeout(() => {
+                --running;
+                resolve({ data: {} });
+            }, 5));
+        });
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var loader = new BatchLoader({ concurrency: 2, dedupe: false });
+        await loader.LoadAll([1, 2, 3, 4, 5].map(() => ({ client: entry, rel: "Item" })));
+        expect(most).toBe(2);
+        expect(countRequests(server, "/item")).toBe(5);
+    });
+
+    it("reports each failure as a result instead of rejecting", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var noLinks = new HalEndpointClient(<any>{ value: 1 }, server);
+        var cycle: any = {};
+        cycle.self = cycle;
+        var results = await new BatchLoader().LoadAll([
+            { client: noLinks, rel: "Item" },
+            { client: entry, rel: "Search", data: cycle },
+            { client: entry, rel: "Search", data: { q: "x" } }
+        ]);
+        expect(results.map(r => r.status)).toEqual(["rejected", "rejected", "fulfilled"]);
+        expect(results[0].status === "rejected" && results[0].error).toBeInstanceOf(MissingRelError);
+        expect(results[2].status === "fulfilled" && results[2].client.GetData()).toEqual({ q: "x" });
+    });
+});
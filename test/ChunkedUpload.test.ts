@@ -0,0 +1,56 @@
+﻿import { describe, expect, it } from 'vitest';
+import { ChunkedUpload } from '../src/ChunkedUpload';
+import { createContentDisposition, getContentDispositionFileName, HalEndpointClient, NetworkError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+class FlakyServer extends MockHalServer {
+    public failNext = false;
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        if (this.failNext) {
+            this.failNext = false;
+            return Promise.reject(new TypeError("Failed to fetch"));
+        }
+        return super.fetch(url, init);
+    }
+}
+
+describe("ChunkedUpload", () => {
+    it("sends each chunk with its range and the encoded file name", async () => {
+        var server = new MockHalServer();
+        server.Get("/", { links: { Upload: { href: "/files", method: "PUT" } } });
+        server.Put("/files", request => ({ data: { range: request.headers["content-range"] } }));
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+
+        var upload = new ChunkedUpload(entry, "Upload", { fileName: "отчёт \"1\".pdf", data: new Blob(["0123456789"]) }, { chunkSize: 4 });
+        var result = await upload.Upload();
+
+        expect(result.GetData()).toEqual({ range: "bytes 8-9/10" });
+        var puts = server.requests.filter(r => r.method === "PUT");
+        expect(puts.map(r => r.headers["content-range"])).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 8-9/10"]);
+        expect(getContentDispositionFileName(puts[0].headers["content-disposition"])).toBe("отчёт \"1\".pdf");
+    });
+
+    it("resumes from the last chunk the server accepted", async () => {
+        var server = new FlakyServer();
+        server.Get("/", { links: { Upload: { href: "/files", method: "PUT" } } });
+        server.Put("/files", request => ({ data: { range: request.headers["content-range"] } }));
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+
+        var upload = new ChunkedUpload(entry, "Upload", new Blob(["0123456789"]), { chunkSize: 5 });
+        server.failNext = true;
+        await expect(upload.Upload()).rejects.toBeInstanceOf(NetworkError);
+        expect(upload.Offset).toBe(0);
+
+        await upload.Upload();
+        expect(upload.IsComplete).toBe(true);
+        expect(server.requests.filter(r => r.method === "PUT").map(r => r.headers["content-range"])).toEqual(["bytes 0-4/10", "bytes 5-9/10"]);
+    });
+});
+
+describe("createContentDisposition", () => {
+    it("only adds filename* for names that are not ascii", () => {
+        expect(createContentDisposition("report.pdf")).toBe('attachment; filename="report.pdf"');
+        expect(createContentDisposition("naïve (1).txt")).toBe("attachment; filename=\"na_ve (1).txt\"; filename*=UTF-8''na%C3%AFve%20%281%29.txt");
+    });
+});
@@ -0,0 +1,56 @@
+﻿import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { ApiWalker, createLoader, generate } from '../bin/halcyon-codegen.js';
+import { HalEndpointClient } from '../src/EndpointClient';
+import { HalFixtureFile, ReplayFetcher } from '../src/HalFixtures';
+import { TypedEndpointClient } from '../src/TypedEndpointClient';
+import { EntryPointDef } from './fixtures/api.generated';
+
+var fixturesPath = "test/fixtures/api.json";
+
+function generateFrom(fixtures: string | HalFixtureFile, entry: string): Promise<string> {
+    var walker = new ApiWalker(createLoader({ fixtures: fixtures, maxRequests: 50 }));
+    return walker.walk(entry, "EntryPoint")
+        .then(() => generate(walker, "../../src/TypedEndpointClient"));
+}
+
+describe("halcyon-codegen", () => {
+    it("generates the client definitions for the recorded api", async () => {
+        var output = await generateFrom(fixturesPath, "http://localhost/api/");
+        //Regenerate with: node bin/halcyon-codegen.js http://localhost/api/ --fixtures test/fixtures/api.json --import ../../src/TypedEndpointClient --out test/fixtures/api.generated.ts
+        await expect(output).toMatchFileSnapshot("./fixtures/api.generated.ts");
+    });
+
+    it("renames client definitions that collide with schemas", async () => {
+        var output = await generateFrom(fixturesPath, "http://localhost/api/");
+        //The Describe docs have a schema called ThingDef, so the definition for the Thing client can't use that name
+        expect(output).toContain("export interface ThingDef {");
+        expect(output).toContain("export interface ThingDef2 {");
+        expect(output).toContain("AddThing: TypedLinkDef<ThingInput, ThingDef2>;");
+    });
+
+    it("resolves relative hrefs against the response they came from", async () => {
+        var fixtures: HalFixtureFile = {
+            responses: [
+                { method: "GET", href: "http://localhost/api/", status: 200, body: { _links: { Items: { href: "items" }, "Items.Docs": { href: "/docs/items" } } } },
+                { method: "GET", href: "http://localhost/docs/items", status: 200, body: { responseSchema: { title: "Items", type: "object", properties: {} } } },
+                { method: "GET", href: "http://localhost/api/items", status: 200, body: { _links: { Next: { href: "?page=2" } } } }
+            ]
+        };
+        var output = await generateFrom(fixtures, "http://localhost/api/");
+        expect(output).toContain("Next: TypedLinkDef<void, TypedClientDef>;");
+    });
+});
+
+describe("generated clients", () => {
+    it("load the recorded responses", async () => {
+        var fetcher = new ReplayFetcher(readFileSync(fixturesPath, "utf8"), true);
+        var entry = new TypedEndpointClient<EntryPointDef>(await HalEndpointClient.Load({ href: "http://localhost/api/", method: "GET" }, fetcher));
+
+        var things = await entry.load("Things");
+        expect(things.getData().total).toBe(1);
+
+        var added = await entry.loadWithData("AddThing", { name: "Second" });
+        expect(added.getData()).toEqual({ id: 2, name: "Second" });
+    });
+});
@@ -0,0 +1,165 @@
+﻿import { describe, expect, it } from 'vitest';
+import { BodyDataMode, expandUriTemplate, getDataMode, JsonPatchDataMode, registerDataMode } from '../src/DataModes';
+import { DataModeHandler, HalEndpointClient, HalLink, InvalidJsonPatchError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", {
+        links: {
+            Save: { href: "/items", method: "POST", datamode: "body" },
+            Search: { href: "/items", datamode: "query" },
+            Page: { href: "/items{?page,size}", datamode: "template" },
+            Merge: { href: "/items", method: "PATCH", datamode: "mergepatch" },
+            Patch: { href: "/items", method: "PATCH", datamode: "jsonpatch" },
+            Submit: { href: "/items", method: "POST", datamode: "urlencoded" }
+        }
+    });
+    server.Post("/items", request => ({ data: { body: request.body, contentType: request.headers["content-type"] } }));
+    server.Route("PATCH", "/items", request => ({ data: { body: request.body, contentType: request.headers["content-type"] } }));
+    server.Get("/items", request => ({ data: { query: request.query } }));
+    return server;
+}
+
+//Sends the body with a version in the content type
+class VersionedBodyDataMode implements DataModeHandler {
+    public CreateRequest(link: HalLink, data: any, settings: any) {
+        return { ...new BodyDataMode().CreateRequest(link, { ...data, version: 2 }, settings), contentType: "application/json; version=2" };
+    }
+}
+
+//The examples from RFC 6570 section 3.2
+var templateData = {
+    "var": "value",
+    hello: "Hello World!",
+    path: "/foo/bar",
+    empty: "",
+    list: ["red", "green", "blue"],
+    keys: { semi: ";", dot: ".", comma: "," },
+    x: 1024,
+    y: 768
+};
+
+var templateExamples: [string, string][] = [
+    ["{var}", "value"],
+    ["{hello}", "Hello%20World%21"],
+    ["{x,hello,y}", "1024,Hello%20World%21,768"],
+    ["{var:3}", "val"],
+    ["{var:30}", "value"],
+    ["{list}", "red,green,blue"],
+    ["{list*}", "red,green,blue"],
+    ["{keys}", "semi,%3B,dot,.,comma,%2C"],
+    ["{keys*}", "semi=%3B,dot=.,comma=%2C"],
+    ["{undef}", ""],
+    ["{+hello}", "Hello%20World!"],
+    ["{+path,x}/here", "/foo/bar,1024/here"],
+    ["{+path:6}/here", "/foo/b/here"],
+    ["{+list*}", "red,green,blue"],
+    ["{+keys}", "semi,;,dot,.,comma,,"],
+    ["{+keys*}", "semi=;,dot=.,comma=,"],
+    ["{#x,hello,y}", "#1024,Hello%20World!,768"],
+    ["{#path:6}/here", "#/foo/b/here"],
+    ["{#keys*}", "#semi=;,dot=.,comma=,"],
+    ["X{.var:3}", "X.val"],
+    ["X{.x,y}", "X.1024.768"],
+    ["X{.list*}", "X.red.green.blue"],
+    ["X{.keys*}", "X.semi=%3B.dot=..comma=%2C"],
+    ["{/var:1,var}", "/v/value"],
+    ["{/var,x}/here", "/value/1024/here"],
+    ["{/list*,path:4}", "/red/green/blue/%2Ffoo"],
+    ["{/keys*}", "/semi=%3B/dot=./comma=%2C"],
+    ["{;x,y,empty}", ";x=1024;y=768;empty"],
+    ["{;hello:5}", ";hello=Hello"],
+    ["{;list}", ";list=red,green,blue"],
+    ["{;list*}", ";list=red;list=green;list=blue"],
+    ["{;keys}", ";keys=semi,%3B,dot,.,comma,%2C"],
+    ["{;keys*}", ";semi=%3B;dot=.;comma=%2C"],
+    ["{?x,y,empty}", "?x=1024&y=768&empty="],
+    ["{?x,y,undef}", "?x=1024&y=768"],
+    ["{?var:3}", "?var=val"],
+    ["{?list}", "?list=red,green,blue"],
+    ["{?list*}", "?list=red&list=green&list=blue"],
+    ["{?keys}", "?keys=semi,%3B,dot,.,comma,%2C"],
+    ["{?keys*}", "?semi=%3B&dot=.&comma=%2C"],
+    ["?fixed=yes{&x}", "?fixed=yes&x=1024"],
+    ["{&var:3}", "&var=val"],
+    ["{&list*}", "&list=red&list=green&list=blue"],
+    ["{&keys*}", "&semi=%3B&dot=.&comma=%2C"]
+];
+
+describe("expandUriTemplate", () => {
+    it.each(templateExamples)("expands %s", (template, expected) => {
+        expect(expandUriTemplate(template, templateData)).toBe(expected);
+    });
+});
+
+describe("data modes", () => {
+    it("uses registered handlers for the calls for a specific mode", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var original = getDataMode("body")!;
+        registerDataMode("body", new VersionedBodyDataMode());
+        try {
+            var saved = await entry.LoadLinkWithBody("Save", { name: "a" });
+            expect(saved.GetData()).toEqual({ body: { name: "a", version: 2 }, contentType: "application/json; version=2" });
+            var raw = await entry.LoadRawLinkWithBody("Save", { name: "b" });
+            expect((await raw.json()).body).toEqual({ name: "b", version: 2 });
+        }
+        finally {
+            registerDataMode("body", original);
+        }
+    });
+
+    it("uses the handlers in the settings for the calls for a specific mode", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server, undefined, {
+            dataModes: {
+                query: { CreateRequest: (link, data) => ({ link: { ...link, href: link.href + "?q=" + data.text } }) }
+            }
+        });
+        var result = await entry.LoadLinkWithQuery("Search", { text: "abc" });
+        expect(result.GetData()).toEqual({ query: { q: "abc" } });
+    });
+
+    it("expands template links that are loaded without data", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        await entry.LoadLink("Page");
+        await entry.LoadRawLink("Page");
+        expect(server.requests.slice(1).map(r => r.href)).toEqual([server.GetLink("/items").href, server.GetLink("/items").href]);
+    });
+
+    it("sends json merge patches", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var result = await entry.LoadLinkWithData("Merge", { name: "b", description: null });
+        expect(result.GetData()).toEqual({ body: { name: "b", description: null }, contentType: "application/merge-patch+json" });
+    });
+
+    it("sends json patches", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var operations = [{ op: "replace", path: "/name", value: "b" }, { op: "remove", path: "/description" }];
+        var result = await entry.LoadLinkWithData("Patch", operations);
+        expect(result.GetData()).toEqual({ body: operations, contentType: "application/json-patch+json" });
+
+        var link = server.GetLink("/items", "PATCH");
+        expect(() => new JsonPatchDataMode().CreateRequest(link, { name: "b" }, {})).toThrow(InvalidJsonPatchError);
+    });
+
+    it("sends url encoded forms", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var result = await entry.LoadLinkWithData("Submit", {
+            name: "a b",
+            tags: ["x", "y"],
+            address: { city: "Town" },
+            missing: null,
+            when: new Date(Date.UTC(2020, 0, 2))
+        });
+        expect(result.GetData()).toEqual({
+            body: "name=a+b&tags%5B0%5D=x&tags%5B1%5D=y&address.city=Town&when=2020-01-02T00%3A00%3A00.000Z",
+            contentType: "application/x-www-form-urlencoded"
+        });
+    });
+});
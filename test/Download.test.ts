@@ -0,0 +1,32 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", { links: { Report: { href: "/report" }, Export: { href: "/export", datamode: "query" } } });
+    var file = () => ({
+        status: 200,
+        body: "a,b",
+        contentType: "text/csv",
+        headers: { "Content-Disposition": "attachment; filename=\"report.csv\"" }
+    });
+    server.Get("/report", file);
+    server.Get("/export", file);
+    return server;
+}
+
+describe("downloads", () => {
+    it("send the headers from the options", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+
+        var report = await entry.DownloadLink("Report", { headers: { "X-Format": "csv" } });
+        expect(report.fileName).toBe("report.csv");
+        expect(await report.body.text()).toBe("a,b");
+
+        await entry.DownloadLinkWithData("Export", { year: 2024 }, { headers: { "X-Format": "csv" } });
+        expect(server.requests.slice(1).map(r => r.headers["x-format"])).toEqual(["csv", "csv"]);
+        expect(server.requests[2].query).toEqual({ year: "2024" });
+    });
+});
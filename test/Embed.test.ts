@@ -0,0 +1,76 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function loadOrder(): Promise<HalEndpointClient> {
+    var server = new MockHalServer();
+    server.Get("/orders/1", {
+        data: { id: 1 },
+        embeds: {
+            lines: [
+                {
+                    data: { sku: "a" },
+                    links: { self: { href: "/orders/1/lines/1" } },
+                    embeds: { options: [{ data: { name: "red" } }, { data: { name: "large" } }] }
+                },
+                { data: { sku: "b" } }
+            ],
+            notes: []
+        }
+    });
+    return HalEndpointClient.Load(server.GetLink("/orders/1"), server);
+}
+
+describe("Embed", () => {
+    it("reads embeds nested in embedded items", async () => {
+        var order = await loadOrder();
+        var lines = order.GetEmbed<{ sku: string }>("lines");
+        expect(lines.Name).toBe("lines");
+        expect(lines.Count).toBe(2);
+        expect(lines.GetData(0)).toEqual({ sku: "a" });
+
+        var line = lines.GetClient(0);
+        expect(line.GetLink("self").href).toBe("http://localhost/orders/1/lines/1");
+        var options = line.GetEmbed<{ name: string }>("options");
+        expect(options.GetAllData()).toEqual([{ name: "red" }, { name: "large" }]);
+        expect(options.GetClient(1).GetData()).toEqual({ name: "large" });
+        expect(lines.GetClient(1).HasEmbed("options")).toBe(false);
+
+        //Creating the clients leaves the embedded data alone, so it can be read again
+        expect(lines.GetClient(0)).toBe(line);
+        expect(order.GetEmbed("lines").GetClient(0).GetEmbed("options").Count).toBe(2);
+    });
+
+    it("creates the clients as they are iterated", async () => {
+        var order = await loadOrder();
+        var lines = order.GetEmbed("lines");
+        var skus: string[] = [];
+        for (var line of lines) {
+            skus.push(line.GetData<{ sku: string }>().sku);
+        }
+        expect(skus).toEqual(["a", "b"]);
+        expect(lines.GetAllClients()[1]).toBe(lines.GetClient(1));
+    });
+
+    it("handles missing and empty embeds", async () => {
+        var order = await loadOrder();
+        expect(order.HasEmbed("missing")).toBe(false);
+        expect(order.GetEmbed("missing")).toBeUndefined();
+        expect(order.GetAllEmbeds().map(e => e.Name)).toEqual(["lines", "notes"]);
+
+        var notes = order.GetEmbed("notes");
+        expect(notes.Count).toBe(0);
+        expect(notes.GetAllData()).toEqual([]);
+        expect([...notes]).toEqual([]);
+
+        var lines = order.GetEmbed("lines");
+        expect(lines.GetClient(2)).toBeUndefined();
+        expect(lines.GetClient(-1)).toBeUndefined();
+        expect(lines.GetData(2)).toBeUndefined();
+
+        var plain = await HalEndpointClient.Load({ href: "http://localhost/plain", method: "GET" }, new MockHalServer().Get("/plain", { data: { id: 2 } }));
+        expect(plain.HasEmbed("lines")).toBe(false);
+        expect(plain.GetEmbed("lines")).toBeUndefined();
+        expect(plain.GetAllEmbeds()).toEqual([]);
+    });
+});
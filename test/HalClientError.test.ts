@@ -0,0 +1,65 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalClientError, HalEndpointClient, HttpStatusError, InvalidJsonError, UnsupportedContentTypeError } from '../src/EndpointClient';
+import { MockHalServer, MockResponse } from '../src/MockHalServer';
+
+function createEntry(response: MockResponse): Promise<HalEndpointClient> {
+    var server = new MockHalServer();
+    server.Get("/", { links: { Result: { href: "/result" } } });
+    server.Get("/result", response);
+    return HalEndpointClient.Load(server.GetLink("/"), server);
+}
+
+async function loadError(response: MockResponse): Promise<HalClientError> {
+    var entry = await createEntry(response);
+    try {
+        await entry.LoadLink("Result");
+    }
+    catch (err) {
+        return err;
+    }
+    throw new Error("The request did not fail.");
+}
+
+describe("HalClientError", () => {
+    it("reports content types the client cannot read", async () => {
+        var error = <UnsupportedContentTypeError>await loadError({ status: 200, body: "<html></html>", contentType: "text/html; charset=utf-8" });
+        expect(error).toBeInstanceOf(UnsupportedContentTypeError);
+        expect(error.contentType).toBe("text/html; charset=utf-8");
+        expect(error.status).toBe(200);
+        expect(error.rel).toBe("Result");
+        expect(error.href).toBe("http://localhost/result");
+        expect(error.responseText).toBe("<html></html>");
+    });
+
+    it("reports json that cannot be parsed", async () => {
+        var error = <InvalidJsonError>await loadError({ status: 200, body: "{ \"name\": ", contentType: "application/json+halcyon" });
+        expect(error).toBeInstanceOf(InvalidJsonError);
+        expect(error.cause).toBeInstanceOf(SyntaxError);
+        expect(error.status).toBe(200);
+        expect(error.responseText).toBe("{ \"name\": ");
+    });
+
+    it("reports error statuses without an error body as the status", async () => {
+        var error = <HttpStatusError>await loadError({ status: 500, body: "Something broke.", contentType: "text/plain" });
+        expect(error).toBeInstanceOf(HttpStatusError);
+        expect(error.status).toBe(500);
+        expect(error.rel).toBe("Result");
+        expect(error.responseText).toBe("Something broke.");
+
+        //An error body that can't be parsed reports the status too
+        error = <HttpStatusError>await loadError({ status: 502, body: "{ bad", contentType: "application/json" });
+        expect(error).toBeInstanceOf(HttpStatusError);
+        expect(error.status).toBe(502);
+
+        error = <HttpStatusError>await loadError({ status: 404, body: { notAnError: true } });
+        expect(error).toBeInstanceOf(HttpStatusError);
+        expect(error.status).toBe(404);
+    });
+
+    it("loads an empty body as an empty client", async () => {
+        var entry = await createEntry({ status: 200, body: "", contentType: "application/json+halcyon" });
+        var client = await entry.LoadLink("Result");
+        expect(client.GetData()).toEqual({});
+        expect(client.HasLink("self")).toBe(false);
+    });
+});
@@ -0,0 +1,66 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalError, isProblemDetails } from '../src/EndpointClient';
+import { MockHalServer, MockResponse } from '../src/MockHalServer';
+
+async function loadError(response: MockResponse): Promise<HalError> {
+    var server = new MockHalServer();
+    server.Get("/", { links: { Save: { href: "/save", method: "POST", datamode: "body" } } });
+    server.Post("/save", response);
+    var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+    try {
+        await entry.LoadLinkWithBody("Save", {});
+    }
+    catch (err) {
+        return err;
+    }
+    throw new Error("The request did not fail.");
+}
+
+describe("HalError", () => {
+    it("reads problem details", async () => {
+        var problem = {
+            type: "https://tools.ietf.org/html/rfc9110#section-15.5.1",
+            title: "One or more validation errors occurred.",
+            status: 400,
+            detail: "The name is not valid.",
+            errors: {
+                name: ["Required.", "Too short."],
+                age: "Must be a number."
+            }
+        };
+        var error = await loadError({ status: 400, body: problem, contentType: "application/problem+json" });
+
+        expect(error).toBeInstanceOf(HalError);
+        expect(error.getStatusCode()).toBe(400);
+        expect(error.message).toBe("The name is not valid.");
+        expect(error.getValidationErrors()).toEqual({ name: "Required. Too short.", age: "Must be a number." });
+        expect(error.getValidationError("age")).toBe("Must be a number.");
+        expect(error.hasValidationError("email")).toBe(false);
+        expect(error.getProblemDetails()).toEqual(problem);
+    });
+
+    it("uses the problem title when there is no detail", async () => {
+        var error = await loadError({ status: 409, body: { title: "Conflict." }, contentType: "application/problem+json; charset=utf-8" });
+
+        expect(error.getStatusCode()).toBe(409);
+        expect(error.message).toBe("Conflict.");
+        expect(error.hasValidationErrors()).toBe(false);
+    });
+
+    it("reads halcyon errors sent as plain json", async () => {
+        var error = await loadError({ status: 400, body: { message: "Invalid input.", errors: { name: "Required." } }, contentType: "application/json" });
+
+        expect(error).toBeInstanceOf(HalError);
+        expect(error.message).toBe("Invalid input.");
+        expect(error.getValidationErrors()).toEqual({ name: "Required." });
+        expect(error.getValidationError("name")).toBe("Required.");
+        expect(error.getProblemDetails()).toBeUndefined();
+    });
+
+    it("only treats bodies without a message as problem details", () => {
+        expect(isProblemDetails({ title: "Bad request." })).toBe(true);
+        expect(isProblemDetails({ message: "Bad request.", title: "Bad request." })).toBe(false);
+        expect(isProblemDetails({ errors: {} })).toBe(false);
+        expect(isProblemDetails(null)).toBe(false);
+    });
+});
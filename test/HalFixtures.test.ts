@@ -0,0 +1,135 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+import { describe, expect, it } from 'vitest';
+import { HalEndpointClient } from '../src/EndpointClient';
+import { RecordingFetcher, ReplayFetcher } from '../src/HalFixtures';
+import { MockHalServer } from '../src/MockHalServer';
+
+//Returns each response given to Respond in order
+class ManualFetcher extends Fetcher {
+    private responses: Response[] = [];
+
+    public Respond(response: Response): ManualFetcher {
+        this.responses.push(response);
+        return this;
+    }
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        return Promise.resolve(this.responses.shift());
+    }
+}
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", {
+        data: { name: "entry" },
+        links: {
+            Items: { href: "/items" },
+            Save: { href: "/items", method: "POST", datamode: "body" }
+        }
+    });
+    server.Get("/items", {
+        data: { total: 1 },
+        embeds: { values: [{ data: { id: 1 }, links: { self: { href: "/items/1" } } }] }
+    });
+    server.Post("/items", request => ({ data: { saved: request.body.name } }));
+    return server;
+}
+
+describe("MockHalServer", () => {
+    it("routes requests to resources and handlers", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        expect(entry.GetData()).toEqual({ name: "entry" });
+        expect(entry.GetLink("Items").href).toBe("http://localhost/items");
+
+        var items = await entry.LoadLink("Items");
+        expect(items.GetEmbed("values").GetData(0)).toEqual({ id: 1 });
+
+        var saved = await entry.LoadLinkWithBody("Save", { name: "new" });
+        expect(saved.GetData()).toEqual({ saved: "new" });
+        expect(server.requests.map(r => r.method + " " + r.path)).toEqual(["GET /", "GET /items", "POST /items"]);
+        expect(server.requests[2].body).toEqual({ name: "new" });
+    });
+
+    it("returns a 404 for paths without a route", async () => {
+        var server = createServer();
+        var response = await server.fetch("http://localhost/missing");
+        expect(response.status).toBe(404);
+    });
+
+    it("rejects requests that were already aborted", async () => {
+        var server = createServer();
+        var controller = new AbortController();
+        controller.abort();
+        await expect(server.fetch("http://localhost/", { signal: controller.signal })).rejects.toThrow();
+    });
+});
+
+describe("fixtures", () => {
+    it("records responses that can be replayed without the server", async () => {
+        var recorder = new RecordingFetcher(createServer());
+        var entry = await HalEndpointClient.Load({ href: "http://localhost/", method: "GET" }, recorder);
+        await entry.LoadLink("Items");
+        await recorder.Flush();
+        var json = recorder.Serialize();
+
+        var fixtures = JSON.parse(json);
+        expect(fixtures.responses.map((r: any) => r.method + " " + r.href)).toEqual(["GET http://localhost/", "GET http://localhost/items"]);
+
+        var replay = new ReplayFetcher(json, true);
+        var replayed = await HalEndpointClient.Load({ href: "http://localhost/", method: "GET" }, replay);
+        expect(replayed.GetData()).toEqual({ name: "entry" });
+        var items = await replayed.LoadLink("Items");
+        expect(items.GetData()).toEqual({ total: 1 });
+        expect(items.GetEmbed("values").Count).toBe(1);
+    });
+
+    it("rejects requests that were not recorded when throwOnMissing is set", async () => {
+        var replay = new ReplayFetcher({ responses: [] }, true);
+        await expect(replay.fetch("http://localhost/")).rejects.toThrow("No fixture recorded for GET http://localhost/");
+    });
+
+    it("repeats the last response recorded for a request", async () => {
+        var replay = new ReplayFetcher({
+            responses: [
+                { method: "GET", href: "http://localhost/", status: 200, contentType: "application/json+halcyon", body: { n: 1 } },
+                { method: "GET", href: "http://localhost/", status: 200, contentType: "application/json+halcyon", body: { n: 2 } }
+            ]
+        });
+        var link = { href: "http://localhost/", method: "GET" };
+        var loaded: any[] = [];
+        for (var i = 0; i < 3; ++i) {
+            loaded.push((await HalEndpointClient.Load(link, replay)).GetData());
+        }
+        expect(loaded).toEqual([{ n: 1 }, { n: 2 }, { n: 2 }]);
+    });
+
+    it("returns responses before their bodies are recorded", async () => {
+        var body: ReadableStreamDefaultController<Uint8Array>;
+        var stream = new ReadableStream<Uint8Array>({ start: controller => { body = controller; } });
+        var recorder = new RecordingFetcher(new ManualFetcher().Respond(new Response(stream, { status: 200, headers: { "Content-Type": "application/json+halcyon" } })));
+
+        var response = await recorder.fetch("http://localhost/");
+        expect(recorder.GetFixtures().responses[0].body).toBeUndefined();
+
+        body.enqueue(new TextEncoder().encode('{"n":1}'));
+        body.close();
+        expect(await response.json()).toEqual({ n: 1 });
+        await recorder.Flush();
+        expect(recorder.GetFixtures().responses[0].body).toEqual({ n: 1 });
+    });
+
+    it("records binary responses as base64", async () => {
+        var bytes = new Uint8Array([0, 1, 2, 255]);
+        var recorder = new RecordingFetcher(new ManualFetcher().Respond(new Response(bytes, { status: 200, headers: { "Content-Type": "image/png" } })));
+        await (await recorder.fetch("http://localhost/logo.png")).arrayBuffer();
+        await recorder.Flush();
+        var fixture = recorder.GetFixtures().responses[0];
+        expect(fixture.base64).toBe("AAEC/w==");
+        expect(fixture.text).toBeUndefined();
+
+        var replayed = await new ReplayFetcher(recorder.Serialize()).fetch("http://localhost/logo.png");
+        expect(replayed.headers.get("Content-Type")).toBe("image/png");
+        expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes);
+    });
+});
@@ -0,0 +1,83 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings } from '../src/EndpointClient';
+import { createJsonReviver, stringifyJson, toJsonValue } from '../src/JsonSerializer';
+import { MockHalServer } from '../src/MockHalServer';
+import { RequestValidationError, SchemaRequestValidator } from '../src/RequestValidator';
+
+enum Status {
+    Open,
+    Closed
+}
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    var item = {
+        data: { when: "2024-05-01T10:30:00Z", status: "Closed", tags: ["Open", "Closed"] },
+        links: {
+            self: { href: "/item" },
+            Save: { href: "/item", method: "PUT", datamode: "body" },
+            "Save.Docs": { href: "/docs/save" }
+        }
+    };
+    server.Get("/item", item);
+    server.Put("/item", request => ({ data: request.body }));
+    server.Get("/docs/save", {
+        data: {
+            requestSchema: {
+                type: "object",
+                required: ["when"],
+                properties: {
+                    when: { type: "string", format: "date-time" },
+                    status: { type: "string", enum: ["Open", "Closed"] },
+                    tags: { type: "array", items: { type: "string", enum: ["Open", "Closed"] } }
+                }
+            }
+        }
+    });
+    return server;
+}
+
+describe("json settings", () => {
+    it("revives dates and enums and sends them back the way they came", async () => {
+        var server = createServer();
+        var settings: HalEndpointClientSettings = { json: { reviveDates: true, enums: { status: Status, tags: Status } } };
+        var item = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+        var data = item.GetData<any>();
+        expect(data.when).toBeInstanceOf(Date);
+        expect(data.status).toBe(Status.Closed);
+        expect(data.tags).toEqual([Status.Open, Status.Closed]);
+
+        var saved = await item.LoadLinkWithBody("Save", data);
+        expect(server.requests[1].body).toEqual({ when: "2024-05-01T10:30:00.000Z", status: "Closed", tags: ["Open", "Closed"] });
+        expect(saved.GetData<any>().status).toBe(Status.Closed);
+    });
+
+    it("validates the data as it will be sent", async () => {
+        var server = createServer();
+        var settings: HalEndpointClientSettings = { json: { reviveDates: true, enums: { status: Status, tags: Status } } };
+        var item = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+        var validator = new SchemaRequestValidator();
+        await item.LoadLinkWithBody("Save", item.GetData(), { validator: validator });
+
+        var error = await item.LoadLinkWithBody("Save", { when: undefined, status: 5 }, { validator: validator }).catch(e => e);
+        expect(error).toBeInstanceOf(RequestValidationError);
+        expect(error.getValidationErrors()).toEqual({
+            when: "The when field is required.",
+            status: "The status field must be a string."
+        });
+    });
+
+    it("converts values the same way JSON.stringify does and keeps blobs", () => {
+        var blob = new Blob(["x"]);
+        var value = toJsonValue({ when: new Date(0), skip: undefined, fn: () => 1, list: [undefined, 1], file: { fileName: "a", data: blob } }, undefined);
+        expect(value).toEqual({ when: "1970-01-01T00:00:00.000Z", list: [null, 1], file: { fileName: "a", data: blob } });
+        expect(value.file.data).toBe(blob);
+    });
+
+    it("runs the custom reviver and replacer after the built in ones", () => {
+        var reviver = createJsonReviver({ reviveDates: true, reviver: (key, value) => value instanceof Date ? value.getUTCFullYear() : value });
+        expect(JSON.parse('{"when":"2024-05-01T10:30:00Z"}', reviver)).toEqual({ when: 2024 });
+        expect(stringifyJson({ status: Status.Open, n: 1 }, { enums: { status: Status }, replacer: (key, value) => key === "n" ? 2 : value }))
+            .toBe('{"status":"Open","n":2}');
+    });
+});
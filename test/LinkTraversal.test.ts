@@ -0,0 +1,50 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, NetworkError, UnsupportedDataModeError } from '../src/EndpointClient';
+import { LinkTraversal, TraversalError } from '../src/LinkTraversal';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", { links: { Items: { href: "/items" }, Odd: { href: "/odd", datamode: "unknown" } } });
+    server.Get("/items", { embeds: { values: [{ data: { id: 1 }, links: { self: { href: "/items/1" } } }] } });
+    server.Get("/items/1", { data: { id: 1, name: "First" } });
+    return server;
+}
+
+describe("LinkTraversal", () => {
+    it("follows links and embeds", async () => {
+        var server = createServer();
+        var client = await LinkTraversal.FromLink(server.GetLink("/"), server).Path("Items", "values[0]", "self").Run();
+        expect(client.GetData()).toEqual({ id: 1, name: "First" });
+    });
+
+    it("reports errors thrown while starting a load as a traversal error", async () => {
+        var server = createServer();
+        var error = await LinkTraversal.FromLink(server.GetLink("/"), server).Follow("Odd", { value: 1 }).Run().catch(err => err);
+        expect(error).toBeInstanceOf(TraversalError);
+        expect(error.step).toBe(0);
+        expect(error.cause).toBeInstanceOf(UnsupportedDataModeError);
+    });
+
+    it("rejects embed indexes that are out of range or not whole numbers", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        for (var index of [1, -1, 0.5, NaN]) {
+            var error = await LinkTraversal.From(entry).Follow("Items").Embed("values", index).Run().catch(err => err);
+            expect(error).toBeInstanceOf(TraversalError);
+            expect(error.step).toBe(1);
+            expect(error.stepName).toBe("values[" + index + "]");
+        }
+    });
+
+    it("reports a failure to load the entry link as step -1", async () => {
+        var server = createServer();
+        server.fetch = () => Promise.reject(new TypeError("Failed to fetch"));
+        var error = await LinkTraversal.FromLink(server.GetLink("/"), server).Path("Items").Run().catch(err => err);
+        expect(error).toBeInstanceOf(TraversalError);
+        expect(error.step).toBe(-1);
+        expect(error.stepName).toBe("entry");
+        expect(error.cause).toBeInstanceOf(NetworkError);
+        expect(error.href).toBe(server.GetLink("/").href);
+    });
+});
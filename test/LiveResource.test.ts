@@ -0,0 +1,149 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalError } from '../src/EndpointClient';
+import { LiveResource } from '../src/LiveResource';
+import { MockHalServer } from '../src/MockHalServer';
+
+interface Item {
+    name: string;
+}
+
+function createServer(): { server: MockHalServer, item: Item, release: () => void, hold: () => void } {
+    var server = new MockHalServer();
+    var item: Item = { name: "first" };
+    var gate: Promise<void> | undefined = undefined;
+    var open: () => void = () => { };
+    var links = {
+        self: { href: "/item" },
+        Rename: { href: "/item", method: "PUT", datamode: "body" },
+        Touch: { href: "/item/touch", method: "POST", datamode: "body" },
+        Reject: { href: "/item/reject", method: "PUT", datamode: "body" }
+    };
+    server.Get("/item", () => {
+        var resource = { data: { ...item }, links: links }; //Read now, like the server would, and send it when the gate opens
+        return gate !== undefined ? gate.then(() => resource) : resource;
+    });
+    server.Put("/item", request => {
+        item.name = request.body.name;
+        return { data: { ...item }, links: links };
+    });
+    server.Post("/item/touch", request => {
+        item.name = request.body.name;
+        return { status: 204 };
+    });
+    server.Put("/item/reject", { status: 400, body: { message: "The name is not valid.", errors: { name: "Too long." } } });
+    return {
+        server: server,
+        item: item,
+        hold: () => gate = new Promise<void>(resolve => open = resolve),
+        release: () => {
+            gate = undefined;
+            open();
+        }
+    };
+}
+
+describe("LiveResource", () => {
+    it("reloads again when it is invalidated during a reload", async () => {
+        var { server, item, hold, release } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+        var names: string[] = [];
+        resource.Subscribe(data => names.push(data.name));
+
+        hold();
+        var first = resource.Refresh();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        item.name = "second";
+        resource.Invalidate();
+        var second = resource.Refresh();
+        expect(second).not.toBe(first);
+        release();
+
+        await first;
+        await second;
+        expect(resource.GetData()).toEqual({ name: "second" });
+        expect(resource.IsStale).toBe(false);
+        expect(names).toEqual(["first", "second"]);
+    });
+
+    it("shares a reload when nothing changed", async () => {
+        var { server } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+        expect(resource.Refresh()).toBe(resource.Refresh());
+    });
+
+    it("replaces the data with a mutation result that is the resource", async () => {
+        var { server } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+        var client = await resource.MutateLinkWithBody("Rename", { name: "renamed" }, data => ({ ...data, name: "renamed" }));
+        expect(resource.Client).toBe(client);
+        expect(server.requests.map(r => r.method)).toEqual(["GET", "PUT"]);
+    });
+
+    it("reloads after a mutation that does not return the resource", async () => {
+        var { server } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+        var mutation = resource.MutateLinkWithBody("Touch", { name: "touched" }, data => ({ ...data, name: "touched" }));
+        expect(resource.GetData()).toEqual({ name: "touched" });
+        await mutation;
+        expect(server.requests.map(r => r.method)).toEqual(["GET", "POST", "GET"]);
+        expect(resource.GetData()).toEqual({ name: "touched" });
+        expect(resource.Client.HasLink("Touch")).toBe(true);
+        expect(resource.HasPendingChanges).toBe(false);
+        expect(resource.IsStale).toBe(false);
+    });
+
+    it("reloads after a mutation that returns a different resource", async () => {
+        var server = new MockHalServer();
+        var items: { id: number }[] = [];
+        server.Get("/items", () => ({
+            data: { count: items.length },
+            links: { self: { href: "/items" }, Add: { href: "/items", method: "POST", datamode: "body" } }
+        }));
+        server.Post("/items", () => {
+            var item = { id: items.length + 5 };
+            items.push(item);
+            return { data: item, links: { self: { href: "/items/" + item.id } } };
+        });
+        var resource = new LiveResource<{ count: number }>(await HalEndpointClient.Load(server.GetLink("/items"), server));
+
+        var added = await resource.MutateLinkWithBody("Add", {}, data => ({ count: data.count + 1 }));
+        expect(added.GetData()).toEqual({ id: 5 });
+        expect(resource.GetData()).toEqual({ count: 1 });
+        expect(resource.Client.GetLink("self").href).toBe(server.GetLink("/items").href);
+        expect(server.requests.map(r => r.method)).toEqual(["GET", "POST", "GET"]);
+    });
+
+    it("rolls back a mutation the server rejects", async () => {
+        var { server } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+        var names: string[] = [];
+        resource.Subscribe(data => names.push(data.name));
+
+        var mutation = resource.MutateLinkWithBody("Reject", { name: "rejected" }, data => ({ ...data, name: "rejected" }));
+        expect(resource.GetData()).toEqual({ name: "rejected" });
+        var error = await mutation.catch(err => err);
+        expect(error).toBeInstanceOf(HalError);
+        expect(error.getValidationError("name")).toBe("Too long.");
+        expect(resource.GetData()).toEqual({ name: "first" });
+        expect(resource.HasPendingChanges).toBe(false);
+        expect(names).toEqual(["rejected", "first"]);
+    });
+
+    it("sends queued mutations in order and keeps going after a failure", async () => {
+        var { server } = createServer();
+        var resource = new LiveResource<Item>(await HalEndpointClient.Load(server.GetLink("/item"), server));
+
+        var first = resource.MutateLinkWithBody("Rename", { name: "a" }, data => ({ ...data, name: "a" }));
+        var failed = resource.MutateLinkWithBody("Reject", { name: "b" }, data => ({ ...data, name: "b" }));
+        var last = resource.MutateLinkWithBody("Rename", { name: "c" }, data => ({ ...data, name: "c" }));
+        expect(resource.GetData()).toEqual({ name: "c" });
+        expect(resource.HasPendingChanges).toBe(true);
+
+        await first;
+        await expect(failed).rejects.toBeInstanceOf(HalError);
+        await last;
+        expect(server.requests.slice(1).map(r => r.path + " " + r.body.name)).toEqual(["/item a", "/item/reject b", "/item c"]);
+        expect(resource.GetData()).toEqual({ name: "c" });
+        expect(resource.HasPendingChanges).toBe(false);
+    });
+});
@@ -0,0 +1,56 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, MissingRelError } from '../src/EndpointClient';
+import { MEDIA_HalJson, MEDIA_Json } from '../src/MediaTypes';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer("http://localhost/api/");
+    server.Get("/api/", {
+        status: 200,
+        contentType: MEDIA_HalJson,
+        body: {
+            name: "entry",
+            _links: {
+                self: { href: "/api/" },
+                items: [{ href: "items{?page}", templated: true }, { href: "other" }],
+                curies: [{ name: "doc", href: "/docs/{rel}", templated: true }]
+            },
+            _embedded: { item: { id: 1, _links: { self: { href: "items/1" } } } }
+        }
+    });
+    server.Get("/api/plain", { status: 200, contentType: MEDIA_Json, body: { value: 1 } });
+    server.Get("/api/empty", { status: 204 });
+    return server;
+}
+
+describe("media types", () => {
+    it("normalizes hal+json links and embeds", async () => {
+        var server = createServer();
+        var client = await HalEndpointClient.Load(server.GetLink("/api/"), server, undefined, { accept: [MEDIA_HalJson] });
+        expect(client.GetData()).toEqual({ name: "entry" });
+        expect(client.GetLink("items")).toEqual({ href: "http://localhost/api/items{?page}", method: "GET", datamode: "template" });
+        expect(client.HasLink("curies")).toBe(false);
+        var embed = client.GetEmbed("item");
+        expect(embed.Count).toBe(1);
+        expect(embed.GetClient(0).GetLink("self").href).toBe("http://localhost/api/items/1");
+    });
+
+    it("loads plain json as a client without links", async () => {
+        var server = createServer();
+        var client = await HalEndpointClient.Load(server.GetLink("/api/plain"), server, undefined, { accept: [MEDIA_Json] });
+        expect(client.GetData()).toEqual({ value: 1 });
+        expect(client.GetLink("x")).toBeUndefined();
+        expect(client.HasLink("x")).toBe(false);
+        expect(client.GetAllLinks()).toEqual([]);
+        expect(client.DescribeLinks()).toEqual([]);
+        expect(() => client.LoadLinkWithData("x", {})).toThrow(MissingRelError);
+        expect(() => client.LoadLink("x")).toThrow(MissingRelError);
+    });
+
+    it("loads empty responses as a client without links", async () => {
+        var server = createServer();
+        var client = await HalEndpointClient.Load(server.GetLink("/api/empty"), server);
+        expect(client.HasLink("self")).toBe(false);
+        expect(() => client.LoadLinkWithBody("self", {})).toThrow(MissingRelError);
+    });
+});
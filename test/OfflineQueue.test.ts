@@ -0,0 +1,116 @@
+﻿import { describe, expect, it } from 'vitest';
+import { ChunkedUpload } from '../src/ChunkedUpload';
+import { HalEndpointClient, HalEndpointClientSettings, NetworkError, RequestQueuedError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+import { OfflineQueue, OfflineResult } from '../src/OfflineQueue';
+
+class FlakyServer extends MockHalServer {
+    public offline = false;
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        return this.offline ? Promise.reject(new TypeError("Failed to fetch")) : super.fetch(url, init);
+    }
+}
+
+function createServer(): FlakyServer {
+    var server = new FlakyServer();
+    server.Get("/", {
+        links: {
+            Read: { href: "/" },
+            Save: { href: "/items", method: "PUT", datamode: "body" },
+            Upload: { href: "/files", method: "POST", datamode: "form" },
+            Blob: { href: "/blobs", method: "PUT" },
+            Clash: { href: "/clash", method: "POST", datamode: "body" }
+        }
+    });
+    server.Put("/items", request => ({ data: { saved: request.body.value } }));
+    server.Post("/files", () => ({ data: { uploaded: true } }));
+    server.Put("/blobs", request => ({ data: { range: request.headers["content-range"] } }));
+    server.Post("/clash", { status: 409, body: { message: "Changed by someone else." } });
+    return server;
+}
+
+async function setup(): Promise<{ server: FlakyServer, queue: OfflineQueue, entry: HalEndpointClient }> {
+    var server = createServer();
+    var settings: HalEndpointClientSettings = {};
+    var queue = new OfflineQueue(server, settings, { autoReplay: false });
+    settings.offline = queue;
+    var entry = await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+    return { server: server, queue: queue, entry: entry };
+}
+
+describe("OfflineQueue", () => {
+    it("queues calls that fail without a connection and replays them in order", async () => {
+        var { server, queue, entry } = await setup();
+        server.offline = true;
+        var calls = [
+            entry.LoadLinkWithBody("Save", { value: 1 }),
+            entry.LoadLinkWithForm("Upload", { file: { fileName: "a.txt", data: new Blob(["a"]) } }),
+            entry.LoadLinkWithBody("Clash", { value: 2 }),
+            entry.LoadLinkWithBody("Save", { value: 3 })
+        ];
+        for (var i = 0; i < calls.length; ++i) {
+            await expect(calls[i]).rejects.toBeInstanceOf(RequestQueuedError);
+        }
+        expect((await queue.GetPending()).map(r => r.rel)).toEqual(["Save", "Upload", "Clash", "Save"]);
+
+        //Still offline, nothing is sent or removed
+        expect(await queue.Replay()).toEqual([]);
+        expect((await queue.GetPending()).length).toBe(4);
+
+        server.offline = false;
+        var results = await queue.Replay();
+        expect(results.map(r => r.request.rel + " " + r.status)).toEqual(["Save sent", "Upload sent", "Clash conflict", "Save sent"]);
+        expect(results[3].client.GetData()).toEqual({ saved: 3 });
+        expect(results[2].error.getStatusCode()).toBe(409);
+        expect(server.requests.filter(r => r.method !== "GET").map(r => r.method + " " + r.path))
+            .toEqual(["PUT /items", "POST /files", "POST /clash", "PUT /items"]);
+        expect(await queue.GetPending()).toEqual([]);
+    });
+
+    it("reports results and conflicts to the callbacks", async () => {
+        var server = createServer();
+        var settings: HalEndpointClientSettings = {};
+        var results: OfflineResult[] = [];
+        var conflicts: OfflineResult[] = [];
+        settings.offline = new OfflineQueue(server, settings, {
+            autoReplay: false,
+            onResult: r => results.push(r),
+            onConflict: r => conflicts.push(r)
+        });
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+        server.offline = true;
+        await entry.LoadLinkWithBody("Clash", { value: 1 }).catch(() => { });
+        await entry.LoadLinkWithBody("Save", { value: 2 }).catch(() => { });
+        server.offline = false;
+        await (<OfflineQueue>settings.offline).Replay();
+        expect(results.map(r => r.status)).toEqual(["conflict", "sent"]);
+        expect(conflicts.map(r => r.request.data)).toEqual([{ value: 1 }]);
+    });
+
+    it("replays upload headers", async () => {
+        var { server, queue, entry } = await setup();
+        server.offline = true;
+        var error = await entry.UploadLinkWithBlob("Blob", new Blob(["abc"]), { headers: { "Content-Range": "bytes 0-2/10" } }).catch(e => e);
+        expect(error).toBeInstanceOf(RequestQueuedError);
+        expect(error.request.headers).toEqual({ "Content-Range": "bytes 0-2/10" });
+
+        server.offline = false;
+        var results = await queue.Replay();
+        expect(results[0].client.GetData()).toEqual({ range: "bytes 0-2/10" });
+    });
+
+    it("does not queue GET links, opted out calls or chunks", async () => {
+        var { server, queue, entry } = await setup();
+        server.offline = true;
+        await expect(entry.LoadLink("Read")).rejects.toBeInstanceOf(NetworkError);
+        await expect(entry.LoadLinkWithBody("Save", { value: 1 }, { offline: false })).rejects.toBeInstanceOf(NetworkError);
+        var upload = new ChunkedUpload(entry, "Blob", new Blob(["abcdef"]), { chunkSize: 3 });
+        await expect(upload.Upload()).rejects.toBeInstanceOf(NetworkError);
+        expect(await queue.GetPending()).toEqual([]);
+
+        server.offline = false;
+        var result = await upload.Upload();
+        expect(result.GetData()).toEqual({ range: "bytes 3-5/6" });
+    });
+});
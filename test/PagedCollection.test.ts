@@ -0,0 +1,102 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient } from '../src/EndpointClient';
+import { MockHalServer, MockRequest, MockResource } from '../src/MockHalServer';
+import { MissingPageQueryError, PagedCollection } from '../src/PagedCollection';
+
+var Total = 5;
+
+function createPage(request: MockRequest): MockResource {
+    var offset = Number(request.query["offset"] || 0);
+    var limit = Number(request.query["limit"] || 2);
+    var links: MockResource["links"] = {
+        self: { href: "/items", datamode: "query", requestdata: { offset: offset, limit: limit, sort: "name" } }
+    };
+    if ((offset + 1) * limit < Total) {
+        links.next = { href: "/items?offset=" + (offset + 1) + "&limit=" + limit };
+    }
+    if (offset > 0) {
+        links.previous = { href: "/items?offset=" + (offset - 1) + "&limit=" + limit };
+    }
+    var values: MockResource[] = [];
+    for (var i = offset * limit; i < Math.min((offset + 1) * limit, Total); ++i) {
+        values.push({ data: { id: i } });
+    }
+    return { data: { offset: offset, limit: limit, total: Total }, links: links, embeds: { values: values } };
+}
+
+async function loadFirstPage(): Promise<{ server: MockHalServer, page: PagedCollection<{ id: number }> }> {
+    var server = new MockHalServer();
+    server.Get("/items", createPage);
+    var client = await HalEndpointClient.Load(server.GetLink("/items"), server);
+    return { server: server, page: new PagedCollection<{ id: number }>(client) };
+}
+
+function ids(page: PagedCollection<{ id: number }>): number[] {
+    return page.GetItemData().map(i => i.id);
+}
+
+describe("PagedCollection", () => {
+    it("reads the paging info from the data", async () => {
+        var { page } = await loadFirstPage();
+        expect(page.Total).toBe(5);
+        expect(page.Limit).toBe(2);
+        expect(page.PageIndex).toBe(0);
+        expect(page.PageCount).toBe(3);
+        expect(ids(page)).toEqual([0, 1]);
+    });
+
+    it("moves to the next and previous pages", async () => {
+        var { page } = await loadFirstPage();
+        expect(page.HasPrevious()).toBe(false);
+        var second = await page.Next();
+        expect(second.PageIndex).toBe(1);
+        expect(ids(second)).toEqual([2, 3]);
+        var third = await second.Next();
+        expect(ids(third)).toEqual([4]);
+        expect(third.HasNext()).toBe(false);
+        var back = await third.Previous();
+        expect(ids(back)).toEqual([2, 3]);
+    });
+
+    it("loads a page by index with the query from the self link", async () => {
+        var { server, page } = await loadFirstPage();
+        var last = await page.LoadPage(2);
+        expect(ids(last)).toEqual([4]);
+        expect(server.requests[1].query).toEqual({ offset: "2", limit: "2", sort: "name" });
+
+        var resized = await page.LoadPage(1, 3);
+        expect(ids(resized)).toEqual([3, 4]);
+        expect(resized.PageCount).toBe(2);
+    });
+
+    it("throws a MissingPageQueryError when there is no query link", async () => {
+        var server = new MockHalServer();
+        server.Get("/items", { data: { offset: 0, limit: 2, total: 5 }, links: { self: { href: "/items" } } });
+        var page = new PagedCollection(await HalEndpointClient.Load(server.GetLink("/items"), server));
+        var error: MissingPageQueryError;
+        try {
+            page.LoadPage(1);
+        }
+        catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(MissingPageQueryError);
+        expect(error.rel).toBe("self");
+        expect(error.queryRels).toEqual(["self", "next", "previous", "first", "last"]);
+    });
+
+    it("iterates every page and every item", async () => {
+        var { page } = await loadFirstPage();
+        var pageIndexes: number[] = [];
+        for await (var p of page.Pages()) {
+            pageIndexes.push(p.PageIndex);
+        }
+        expect(pageIndexes).toEqual([0, 1, 2]);
+
+        var itemIds: number[] = [];
+        for await (var item of page) {
+            itemIds.push(item.GetData<{ id: number }>().id);
+        }
+        expect(itemIds).toEqual([0, 1, 2, 3, 4]);
+    });
+});
@@ -0,0 +1,70 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings, HalError, NetworkError, RequestEndEvent, RequestEvent, RequestFailedEvent } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+class RecordingObserver {
+    public starts: RequestEvent[] = [];
+    public ends: RequestEndEvent[] = [];
+    public failures: RequestFailedEvent[] = [];
+
+    public OnRequestStart(event: RequestEvent): void {
+        this.starts.push(event);
+    }
+
+    public OnRequestEnd(event: RequestEndEvent): void {
+        this.ends.push(event);
+    }
+
+    public OnRequestFailed(event: RequestFailedEvent): void {
+        this.failures.push(event);
+    }
+}
+
+class OfflineServer extends MockHalServer {
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        return url.toString().indexOf("/offline") !== -1 ? Promise.reject(new TypeError("Failed to fetch")) : super.fetch(url, init);
+    }
+}
+
+async function setup(): Promise<{ server: MockHalServer, observer: RecordingObserver, entry: HalEndpointClient }> {
+    var server = new OfflineServer();
+    server.Get("/", {
+        links: {
+            Save: { href: "/items", method: "POST", datamode: "body" },
+            Missing: { href: "/missing" },
+            Offline: { href: "/offline" }
+        }
+    });
+    server.Post("/items", { data: { saved: true } });
+    var observer = new RecordingObserver();
+    var settings: HalEndpointClientSettings = { observers: [observer] };
+    var entry = await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+    return { server: server, observer: observer, entry: entry };
+}
+
+describe("RequestObserver", () => {
+    it("reports the start and end of a request", async () => {
+        var { server, observer, entry } = await setup();
+        await entry.LoadLinkWithBody("Save", { name: "a" });
+
+        var start = observer.starts[1];
+        expect(start).toMatchObject({ rel: "Save", href: server.GetLink("/items").href, method: "POST", datamode: "body", requestSize: 12 });
+        var end = observer.ends[1];
+        expect(end.id).toBe(start.id);
+        expect(end.status).toBe(200);
+        expect(end.duration).toBeGreaterThanOrEqual(0);
+        expect(end.responseSize).toBe(JSON.stringify({ saved: true }).length);
+        expect(observer.failures).toEqual([]);
+    });
+
+    it("reports error responses and network errors as failures", async () => {
+        var { observer, entry } = await setup();
+        await expect(entry.LoadLink("Missing")).rejects.toBeInstanceOf(HalError);
+        await expect(entry.LoadLink("Offline")).rejects.toBeInstanceOf(NetworkError);
+
+        expect(observer.ends.length).toBe(1); //Only the entry point
+        expect(observer.failures.map(f => [f.rel, f.status])).toEqual([["Missing", 404], ["Offline", undefined]]);
+        expect(observer.failures[0].id).toBe(observer.starts[1].id);
+        expect(observer.failures[1].error).toBeInstanceOf(NetworkError);
+    });
+});
@@ -0,0 +1,55 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, RequestCancelledError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+import { RequestValidationError, SchemaRequestValidator } from '../src/RequestValidator';
+
+function createServer(docs: () => Promise<void> = () => Promise.resolve()): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", {
+        links: {
+            Save: { href: "/items", method: "POST", datamode: "body" },
+            "Save.Docs": { href: "/docs/save" }
+        }
+    });
+    server.Get("/docs/save", () => docs().then(() => ({
+        data: {
+            requestSchema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+            responseSchema: {}
+        }
+    })));
+    server.Post("/items", request => ({ data: request.body }));
+    return server;
+}
+
+describe("SchemaRequestValidator", () => {
+    it("validates with the link docs cached by the client settings", async () => {
+        var server = createServer();
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+        var validator = new SchemaRequestValidator();
+
+        await expect(entry.LoadLinkWithBody("Save", {}, { validator: validator })).rejects.toBeInstanceOf(RequestValidationError);
+        var saved = await entry.LoadLinkWithBody("Save", { name: "a" }, { validator: validator });
+        expect(saved.GetData()).toEqual({ name: "a" });
+        await entry.GetLinkDoc("Save");
+        expect(server.requests.filter(r => r.path === "/docs/save").length).toBe(1);
+    });
+});
+
+describe("GetLinkDoc", () => {
+    it("keeps loading the docs for other callers when one caller aborts", async () => {
+        var open: () => void = () => { };
+        var server = createServer(() => new Promise<void>(resolve => open = resolve));
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+
+        var abort = new AbortController();
+        var aborted = entry.GetLinkDoc("Save", { signal: abort.signal });
+        var waiting = entry.GetLinkDoc("Save");
+        await new Promise(resolve => setTimeout(resolve, 0));
+        abort.abort();
+        await expect(aborted).rejects.toBeInstanceOf(RequestCancelledError);
+        open();
+
+        expect((await waiting).requestSchema.required).toEqual(["name"]);
+        expect(server.requests.filter(r => r.path === "/docs/save").length).toBe(1);
+    });
+});
@@ -0,0 +1,104 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings, RequestEndEvent } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+import { MemoryResponseCache } from '../src/ResponseCache';
+
+function createServer(headers: { [key: string]: string }): MockHalServer {
+    var server = new MockHalServer();
+    var version = 0;
+    server.Get("/item", request => {
+        if (headers["ETag"] !== undefined && request.headers["if-none-match"] === headers["ETag"]) {
+            return { status: 304, headers: headers };
+        }
+        return { status: 200, body: { version: ++version }, headers: headers };
+    });
+    return server;
+}
+
+async function loadTwice(headers: { [key: string]: string }): Promise<{ server: MockHalServer, versions: number[] }> {
+    var server = createServer(headers);
+    var settings: HalEndpointClientSettings = { cache: new MemoryResponseCache() };
+    var versions: number[] = [];
+    for (var i = 0; i < 2; ++i) {
+        var client = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+        versions.push(client.GetData<any>().version);
+    }
+    return { server: server, versions: versions };
+}
+
+describe("response cache", () => {
+    it("checks responses with an etag with the server", async () => {
+        var { server, versions } = await loadTwice({ "ETag": '"1"' });
+        expect(versions).toEqual([1, 1]);
+        expect(server.requests[1].headers["if-none-match"]).toBe('"1"');
+    });
+
+    it("uses responses with a max-age without asking the server", async () => {
+        var { server, versions } = await loadTwice({ "Cache-Control": "max-age=60" });
+        expect(versions).toEqual([1, 1]);
+        expect(server.requests.length).toBe(1);
+    });
+
+    it("does not store responses that can't be checked or are not allowed to be stored", async () => {
+        expect((await loadTwice({})).versions).toEqual([1, 2]);
+        expect((await loadTwice({ "ETag": '"1"', "Cache-Control": "no-store" })).versions).toEqual([1, 2]);
+        expect((await loadTwice({ "Cache-Control": "private, max-age=60" })).versions).toEqual([1, 2]);
+    });
+});
+
+describe("response cache with middleware", () => {
+    it("runs the data middleware and observers for fresh cached responses", async () => {
+        var server = createServer({ "Cache-Control": "max-age=60" });
+        var ends: RequestEndEvent[] = [];
+        var settings: HalEndpointClientSettings = {
+            cache: new MemoryResponseCache(),
+            middleware: [{ OnData: data => { (<any>data).tagged = true; } }],
+            observers: [{ OnRequestEnd: e => ends.push(e) }]
+        };
+        var first = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+        var second = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+
+        expect(server.requests.length).toBe(1);
+        expect(second.GetData()).toEqual(first.GetData());
+        expect(second.GetData()).toEqual({ version: 1, tagged: true });
+        expect(ends.map(e => [e.status, e.cached])).toEqual([[200, undefined], [200, true]]);
+        expect(ends[1].responseSize).toBe(ends[0].responseSize);
+    });
+
+    it("uses the href the middleware sends the request to", async () => {
+        var server = new MockHalServer();
+        var version = 0;
+        server.Get("/", { links: { Item: { href: "/item" }, Save: { href: "/item", method: "POST", datamode: "body" } } });
+        server.Get("/item", request => ({ status: 200, body: { version: ++version, tenant: request.query.tenant }, headers: { "ETag": '"' + version + '"' } }));
+        server.Post("/item", { data: {} });
+        var cache = new MemoryResponseCache();
+        var tenant = "a";
+        var settings: HalEndpointClientSettings = {
+            cache: cache,
+            middleware: [{ OnRequest: request => { request.link = { ...request.link, href: request.link.href + "?tenant=" + tenant }; } }]
+        };
+        var entry = await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+
+        await entry.LoadLink("Item");
+        expect(cache.Get(server.GetLink("/item?tenant=a").href)).toBeDefined();
+        tenant = "b";
+        var other = await entry.LoadLink("Item");
+        expect(other.GetData()).toEqual({ version: 2, tenant: "b" });
+        expect(server.requests[2].headers["if-none-match"]).toBeUndefined();
+
+        await entry.LoadLinkWithBody("Save", {});
+        expect(cache.Get(server.GetLink("/item?tenant=b").href)).toBeUndefined();
+        expect(cache.Get(server.GetLink("/item?tenant=a").href)).toBeDefined();
+    });
+});
+
+describe("MemoryResponseCache", () => {
+    it("only invalidates the exact href", () => {
+        var cache = new MemoryResponseCache();
+        cache.Set("http://localhost/api?page=1", { body: "1" });
+        cache.Set("http://localhost/api?page=2", { body: "2" });
+        cache.Invalidate("http://localhost/api?page=1");
+        expect(cache.Get("http://localhost/api?page=1")).toBeUndefined();
+        expect(cache.Get("http://localhost/api?page=2").body).toBe("2");
+    });
+});
@@ -0,0 +1,136 @@
+﻿import { Fetcher } from 'htmlrapier/src/fetcher';
+import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings, HttpStatusError, RequestCancelledError, RetryContext } from '../src/EndpointClient';
+
+//Returns a 503 before each successful response and records if the body of the 503 was cancelled
+class UnavailableOnceFetcher extends Fetcher {
+    public cancelled: boolean[] = [];
+    private calls = 0;
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        if (this.calls++ % 2 === 0) {
+            var index = this.cancelled.push(false) - 1;
+            var body = new ReadableStream<Uint8Array>({
+                pull: controller => controller.enqueue(new TextEncoder().encode("{}")),
+                cancel: () => { this.cancelled[index] = true; }
+            });
+            return Promise.resolve(new Response(body, { status: 503, headers: { "Content-Type": "application/json" } }));
+        }
+        return Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json+halcyon" } }));
+    }
+}
+
+//Returns the scripted responses in order, a status of 0 is a network failure, then returns ok responses
+class ScriptedFetcher extends Fetcher {
+    public methods: string[] = [];
+    private responses: { status: number, headers?: { [key: string]: string } }[];
+
+    constructor(responses: { status: number, headers?: { [key: string]: string } }[]) {
+        super();
+        this.responses = responses;
+    }
+
+    public fetch(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        this.methods.push(init.method);
+        var next = this.responses.shift();
+        if (next === undefined) {
+            return Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json+halcyon" } }));
+        }
+        if (next.status === 0) {
+            return Promise.reject(new TypeError("Failed to fetch"));
+        }
+        return Promise.resolve(new Response(null, { status: next.status, headers: next.headers }));
+    }
+}
+
+function load(fetcher: Fetcher, settings: HalEndpointClientSettings, method?: string, signal?: AbortSignal): Promise<HalEndpointClient> {
+    return HalEndpointClient.Load({ href: "http://localhost/", method: method || "GET" }, fetcher, { signal: signal }, settings);
+}
+
+describe("retry", () => {
+    it("retries network failures and retry statuses up to maxAttempts", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 0 }, { status: 503 }]);
+        var client = await load(fetcher, { retry: { baseDelay: 1 } });
+        expect(client.GetData()).toEqual({ ok: true });
+        expect(fetcher.methods.length).toBe(3);
+
+        fetcher = new ScriptedFetcher([{ status: 503 }, { status: 502 }, { status: 504 }]);
+        var error = await load(fetcher, { retry: { baseDelay: 1, maxAttempts: 2 } }).catch(err => err);
+        expect(error).toBeInstanceOf(HttpStatusError);
+        expect(error.status).toBe(502);
+        expect(fetcher.methods.length).toBe(2);
+    });
+
+    it("only retries the retryStatuses", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 500 }]);
+        await expect(load(fetcher, { retry: { baseDelay: 1 } })).rejects.toBeInstanceOf(HttpStatusError);
+        expect(fetcher.methods.length).toBe(1);
+
+        fetcher = new ScriptedFetcher([{ status: 500 }, { status: 503 }]);
+        var error = await load(fetcher, { retry: { baseDelay: 1, retryStatuses: [500] } }).catch(err => err);
+        expect(error.status).toBe(503);
+        expect(fetcher.methods.length).toBe(2);
+    });
+
+    it("waits for the delay in Retry-After seconds", async () => {
+        //The backoff is too long for the test, so the retry has to use the header
+        var fetcher = new ScriptedFetcher([{ status: 429, headers: { "Retry-After": "0" } }]);
+        await load(fetcher, { retry: { baseDelay: 60000 } });
+        expect(fetcher.methods.length).toBe(2);
+
+        fetcher = new ScriptedFetcher([{ status: 429, headers: { "Retry-After": "20" } }]);
+        await expect(load(fetcher, { retry: { baseDelay: 1, maxDelay: 10000 } })).rejects.toBeInstanceOf(HttpStatusError);
+        expect(fetcher.methods.length).toBe(1);
+    });
+
+    it("waits until the Retry-After date", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 503, headers: { "Retry-After": new Date(Date.now() - 5000).toUTCString() } }]);
+        await load(fetcher, { retry: { baseDelay: 60000 } });
+        expect(fetcher.methods.length).toBe(2);
+
+        fetcher = new ScriptedFetcher([{ status: 503, headers: { "Retry-After": new Date(Date.now() + 3600000).toUTCString() } }]);
+        await expect(load(fetcher, { retry: { baseDelay: 1 } })).rejects.toBeInstanceOf(HttpStatusError);
+        expect(fetcher.methods.length).toBe(1);
+    });
+
+    it("does not retry other methods unless shouldRetry allows it", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 503 }]);
+        await expect(load(fetcher, { retry: { baseDelay: 1 } }, "POST")).rejects.toBeInstanceOf(HttpStatusError);
+        expect(fetcher.methods).toEqual(["POST"]);
+
+        var contexts: RetryContext[] = [];
+        fetcher = new ScriptedFetcher([{ status: 503 }]);
+        var shouldRetry = (context: RetryContext) => {
+            contexts.push(context);
+            return context.link.method === "POST" ? true : undefined;
+        };
+        await load(fetcher, { retry: { baseDelay: 1, shouldRetry: shouldRetry } }, "POST");
+        expect(fetcher.methods).toEqual(["POST", "POST"]);
+        expect(contexts.map(c => [c.attempt, c.response.status])).toEqual([[1, 503]]);
+    });
+
+    it("stops when shouldRetry returns false", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 0 }]);
+        await expect(load(fetcher, { retry: { baseDelay: 1, shouldRetry: () => false } })).rejects.toThrow("Failed to fetch");
+        expect(fetcher.methods.length).toBe(1);
+    });
+
+    it("stops waiting when the request is aborted", async () => {
+        var fetcher = new ScriptedFetcher([{ status: 503 }]);
+        var controller = new AbortController();
+        var loading = load(fetcher, { retry: { baseDelay: 60000 } }, "GET", controller.signal);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        controller.abort();
+        var error = await loading.catch(err => err);
+        expect(error).toBeInstanceOf(RequestCancelledError);
+        expect(error.isTimeout()).toBe(false);
+        expect(fetcher.methods.length).toBe(1);
+    });
+
+    it("cancels the body of responses that are retried", async () => {
+        var fetcher = new UnavailableOnceFetcher();
+        var client = await HalEndpointClient.Load({ href: "http://localhost/", method: "GET" }, fetcher, undefined, { retry: { baseDelay: 1 } });
+        expect(client.GetData()).toEqual({ ok: true });
+        expect(fetcher.cancelled).toEqual([true]);
+    });
+});
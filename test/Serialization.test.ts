@@ -0,0 +1,37 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/item", {
+        data: { when: "2024-05-01T10:30:00Z", name: "item" },
+        links: { self: { href: "/item" } },
+        embeds: { parts: [{ data: { when: "2024-06-01T00:00:00Z" } }] }
+    });
+    return server;
+}
+
+describe("client serialization", () => {
+    it("stores and restores a client with its links and embeds", async () => {
+        var server = createServer();
+        var settings: HalEndpointClientSettings = { json: { reviveDates: true } };
+        var item = await HalEndpointClient.Load(server.GetLink("/item"), server, undefined, settings);
+        var json = JSON.stringify(item);
+        expect(JSON.parse(json).when).toBe("2024-05-01T10:30:00.000Z");
+
+        for (var stored of [json, item.toJSON()]) {
+            var restored = HalEndpointClient.FromJSON(stored, server, settings);
+            expect(restored.GetData<any>().when).toEqual(new Date("2024-05-01T10:30:00Z"));
+            expect(restored.GetLink("self").href).toBe("http://localhost/item");
+            expect(restored.GetEmbed("parts").GetData(0).when).toEqual(new Date("2024-06-01T00:00:00Z"));
+        }
+    });
+
+    it("writes BigInts instead of throwing", () => {
+        var server = createServer();
+        var client = new HalEndpointClient(<any>{ id: BigInt("12345678901234567890"), _links: {} }, server);
+        var json = JSON.stringify(client);
+        expect(json === '{"id":12345678901234567890,"_links":{}}' || json === '{"id":"12345678901234567890","_links":{}}').toBe(true);
+    });
+});
@@ -0,0 +1,45 @@
+﻿import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HalEndpointClient, RequestCancelledError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", { data: { fast: true } });
+    server.Get("/slow", () => new Promise(resolve => setTimeout(() => resolve({ data: { slow: true } }), 50)));
+    return server;
+}
+
+describe("timeout", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("rejects with a timed out RequestCancelledError", async () => {
+        var server = createServer();
+        var error = await HalEndpointClient.Load(server.GetLink("/slow"), server, { timeout: 5, rel: "Slow" }).catch(err => err);
+        expect(error).toBeInstanceOf(RequestCancelledError);
+        expect(error.isTimeout()).toBe(true);
+        expect(error.href).toBe(server.GetLink("/slow").href);
+        expect(error.rel).toBe("Slow");
+    });
+
+    it("is not a timeout when the signal is aborted", async () => {
+        var server = createServer();
+        var controller = new AbortController();
+        var loading = HalEndpointClient.Load(server.GetLink("/slow"), server, { signal: controller.signal, timeout: 1000 });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        expect(server.requests.length).toBe(1); //Abort while the request is running
+        controller.abort();
+        var error = await loading.catch(err => err);
+        expect(error).toBeInstanceOf(RequestCancelledError);
+        expect(error.isTimeout()).toBe(false);
+    });
+
+    it("clears the timer when the response arrives", async () => {
+        vi.useFakeTimers();
+        var server = createServer();
+        var client = await HalEndpointClient.Load(server.GetLink("/"), server, { timeout: 1000 });
+        expect(client.GetData()).toEqual({ fast: true });
+        expect(vi.getTimerCount()).toBe(0);
+    });
+});
@@ -0,0 +1,50 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, HalEndpointClientSettings, RequestEvent } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+import { TraceParentMiddleware } from '../src/TraceParent';
+
+var TraceParentFormat = /^00-[0-9a-f]{32}-[0-9a-f]{16}-[0-9a-f]{2}$/;
+
+function createServer(): MockHalServer {
+    var server = new MockHalServer();
+    server.Get("/", { data: {} });
+    return server;
+}
+
+describe("TraceParentMiddleware", () => {
+    it("adds a traceparent header and reports it to the observers", async () => {
+        var server = createServer();
+        var starts: RequestEvent[] = [];
+        var settings: HalEndpointClientSettings = { middleware: [new TraceParentMiddleware()], observers: [{ OnRequestStart: e => starts.push(e) }] };
+        await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+        await HalEndpointClient.Load(server.GetLink("/"), server, undefined, settings);
+
+        var headers = server.requests.map(r => r.headers["traceparent"]);
+        expect(headers[0]).toMatch(TraceParentFormat);
+        expect(headers[0].substring(3, 35)).not.toBe(headers[1].substring(3, 35)); //Each request starts its own trace
+        expect(starts.map(s => s.traceparent)).toEqual(headers);
+    });
+
+    it("uses the trace from the context", async () => {
+        var server = createServer();
+        var traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+        var middleware = new TraceParentMiddleware({ getContext: () => ({ traceId: traceId, sampled: false, traceState: "app=1" }) });
+        await HalEndpointClient.Load(server.GetLink("/"), server, undefined, { middleware: [middleware] });
+
+        var headers = server.requests[0].headers;
+        expect(headers["traceparent"]).toMatch(TraceParentFormat);
+        expect(headers["traceparent"].substring(3, 35)).toBe(traceId);
+        expect(headers["traceparent"].substring(53)).toBe("00");
+        expect(headers["tracestate"]).toBe("app=1");
+    });
+
+    it("only adds the header for the allowed origins", async () => {
+        var server = createServer();
+        var settings: HalEndpointClientSettings = { middleware: [new TraceParentMiddleware({ origins: ["http://localhost/"] })] };
+        await HalEndpointClient.Load({ href: "http://localhost/", method: "GET" }, server, undefined, settings);
+        await HalEndpointClient.Load({ href: "https://other.example/", method: "GET" }, server, undefined, settings);
+
+        expect(server.requests[0].headers["traceparent"]).toMatch(TraceParentFormat);
+        expect(server.requests[1].headers["traceparent"]).toBeUndefined();
+    });
+});
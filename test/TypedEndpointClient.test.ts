@@ -0,0 +1,58 @@
+﻿import { describe, expect, it } from 'vitest';
+import { HalEndpointClient, UnsupportedDataModeError } from '../src/EndpointClient';
+import { MockHalServer } from '../src/MockHalServer';
+import { TypedClientDef, TypedEndpointClient, TypedLinkDef } from '../src/TypedEndpointClient';
+
+type ResultDef = TypedClientDef<{ query: any }, {}>;
+type EntryDef = TypedClientDef<{ name: string }, {
+    Search: TypedLinkDef<void, ResultDef>;
+    Find: TypedLinkDef<{ q: string }, ResultDef>;
+    Plain: TypedLinkDef<{ q: string }, ResultDef>;
+}>;
+
+async function load(): Promise<{ server: MockHalServer, entry: TypedEndpointClient<EntryDef> }> {
+    var server = new MockHalServer();
+    server.Get("/", {
+        data: { name: "entry" },
+        links: {
+            Search: { href: "/search", datamode: "query" },
+            Find: { href: "/search", datamode: "query" },
+            Plain: { href: "/search" }
+        }
+    });
+    server.Get("/search", request => ({ data: { query: request.query } }));
+    var entry = await HalEndpointClient.Load(server.GetLink("/"), server);
+    return { server: server, entry: new TypedEndpointClient<EntryDef>(entry) };
+}
+
+describe("TypedEndpointClient", () => {
+    it("sends the options of load as options, not data", async () => {
+        var { server, entry } = await load();
+        var controller = new AbortController();
+        var result = await entry.load("Search", { signal: controller.signal });
+        expect(result.getData()).toEqual({ query: {} });
+        expect(server.requests[1].href).toBe("http://localhost/search");
+    });
+
+    it("sends the data of loadWithData with the link's data mode", async () => {
+        var { entry } = await load();
+        var result = await entry.loadWithData("Find", { q: "x" });
+        expect(result.getData()).toEqual({ query: { q: "x" } });
+
+        var response = await entry.loadRawWithData("Find", { q: "y" });
+        expect((await response.json()).query).toEqual({ q: "y" });
+    });
+
+    it("does not treat data as options for links without a data mode", async () => {
+        var { entry } = await load();
+        expect(() => entry.loadWithData("Plain", { q: "x" })).toThrow(UnsupportedDataModeError);
+    });
+
+    it("only allows data for links that take it", async () => {
+        var { entry } = await load();
+        //This is checked by the compiler, the server still decides what the link accepts
+        // @ts-expect-error Search does not take data
+        var send = () => entry.loadWithData("Search", { q: "x" });
+        expect(typeof send).toBe("function");
+    });
+});
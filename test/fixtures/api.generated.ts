@@ -0,0 +1,78 @@
+//This file was generated by halcyon-codegen, changes will be lost if it is regenerated.
+
+import { TypedClientDef, TypedEndpointClient, TypedLinkDef } from "../../src/TypedEndpointClient";
+
+export interface EntryPointDef {
+    data: any;
+    links: {
+        self: TypedLinkDef<void, EntryPointDef>;
+        Things: TypedLinkDef<ThingQuery, ThingCollectionDef>;
+        AddThing: TypedLinkDef<ThingInput, ThingDef2>;
+    };
+}
+
+export type EntryPointClient = TypedEndpointClient<EntryPointDef>;
+
+export interface ThingCollectionDef {
+    data: ThingCollection;
+    links: {
+        self: TypedLinkDef<void, ThingCollectionDef>;
+    };
+    embeds: {
+        values: ThingCollectionValuesItemDef;
+    };
+}
+
+export type ThingCollectionClient = TypedEndpointClient<ThingCollectionDef>;
+
+export interface ThingCollectionValuesItemDef {
+    data: any;
+    links: {
+        self: TypedLinkDef<void, ThingCollectionValuesItemDef>;
+        Describe: TypedLinkDef<void, ThingDefDef>;
+    };
+}
+
+export type ThingCollectionValuesItemClient = TypedEndpointClient<ThingCollectionValuesItemDef>;
+
+export interface ThingDefDef {
+    data: ThingDef;
+    links: {
+        self: TypedLinkDef<void, ThingDefDef>;
+    };
+}
+
+export type ThingDefClient = TypedEndpointClient<ThingDefDef>;
+
+export interface ThingDef2 {
+    data: Thing;
+    links: {};
+}
+
+export type ThingClient = TypedEndpointClient<ThingDef2>;
+
+export interface ThingQuery {
+    name?: string;
+}
+
+export interface ThingCollection {
+    total: number;
+}
+
+/**
+ * The fields a thing has.
+ */
+export interface ThingDef {
+    fields?: string[];
+}
+
+export interface ThingInput {
+    /** The name of the thing. */
+    name: string;
+}
+
+export interface Thing {
+    id: number;
+    name: string;
+}
+
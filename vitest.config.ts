@@ -0,0 +1,13 @@
+﻿import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        server: {
+            deps: {
+                //htmlrapier is published as typescript source, so it has to be compiled with the tests
+                inline: ["htmlrapier"]
+            }
+        }
+    }
+});